@@ -1,9 +1,9 @@
 /**
  * Example 03 — Plugin System
  *
- * Showcases: extend chain, health, scoped jobs, JSON graph for LLM, graceful shutdown.
+ * Showcases: multi-bindings, extend chain, health, scoped jobs, JSON graph for LLM, graceful shutdown.
  */
-import { container, transient } from '../src/index.js';
+import { container, multi, transient } from '../src/index.js';
 
 // ── Core services ───────────────────────────────────────────────────────────
 
@@ -51,35 +51,59 @@ class JobStore {
   }
 }
 
+/** A plugin contributes one step to the job pipeline. */
+interface PipelineStep {
+  name: string;
+  run(input: unknown): unknown;
+}
+
 // ── Core container (builder) ────────────────────────────────────────────────
 
 const core = container()
   .add('logger', () => new Logger())
   .add('metrics', () => new Metrics())
   .add('jobStore', () => new JobStore())
+  .addToSet(
+    'pipeline',
+    (c): PipelineStep => ({
+      name: 'trim',
+      run(input) {
+        c.metrics.inc('trim');
+        return String(input).trim();
+      },
+    }),
+  )
   .build();
 
-// ── Plugins — extend the core ───────────────────────────────────────────────
+// ── Plugins — each one appends a step to the pipeline ──────────────────────
 
 const withCsvPlugin = core.extend({
-  csvParser: (c) => ({
-    parse(raw: string) {
-      c.logger.log('parsing CSV...');
-      c.metrics.inc('csv.parsed');
-      return raw.split('\n').map((line) => line.split(','));
-    },
-  }),
+  pipeline: multi(
+    (c): PipelineStep => ({
+      name: 'csv',
+      run(input) {
+        c.logger.log('parsing CSV...');
+        c.metrics.inc('csv.parsed');
+        return String(input)
+          .split('\n')
+          .map((line) => line.split(','));
+      },
+    }),
+  ),
 });
 
 const withJsonPlugin = withCsvPlugin.extend({
-  jsonTransformer: (c) => ({
-    toJson(rows: string[][]) {
-      c.logger.log('transforming to JSON...');
-      c.metrics.inc('json.transformed');
-      const [header, ...data] = rows;
-      return data.map((row) => Object.fromEntries(header.map((h, i) => [h, row[i]])));
-    },
-  }),
+  pipeline: multi(
+    (c): PipelineStep => ({
+      name: 'json',
+      run(input) {
+        c.logger.log('transforming to JSON...');
+        c.metrics.inc('json.transformed');
+        const [header, ...data] = input as string[][];
+        return data.map((row) => Object.fromEntries(header.map((h, i) => [h, row[i]])));
+      },
+    }),
+  ),
 });
 
 const app = withJsonPlugin.extend({
@@ -88,11 +112,12 @@ const app = withJsonPlugin.extend({
       const job = c.jobStore.add(jobName);
       job.status = 'running';
 
-      const rows = c.csvParser.parse(csvData);
-      const json = c.jsonTransformer.toJson(rows);
+      const json = c.pipeline.reduce((data, step) => step.run(data), csvData as unknown);
 
       job.status = 'done';
-      c.logger.log(`job '${jobName}' done — ${json.length} records`);
+      c.logger.log(
+        `job '${jobName}' done via [${c.pipeline.map((s) => s.name).join(' -> ')}] — ${(json as unknown[]).length} records`,
+      );
       return json;
     },
   })),
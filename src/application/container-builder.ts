@@ -1,11 +1,60 @@
-import { ReservedKeyError } from '../domain/errors.js';
-import type { Container, Factory, RESERVED_KEYS } from '../domain/types.js';
-import { RESERVED_KEYS as RESERVED } from '../domain/types.js';
+import {
+  ContainerVerificationError,
+  DuplicateProviderError,
+  MergeConflictError,
+  ModuleError,
+  ReservedKeyError,
+} from '../domain/errors.js';
+import type {
+  BuilderOptions,
+  BuildOptions,
+  ConflictPolicy,
+  Container,
+  Factory,
+  MergeOptions,
+  MethodsMode,
+  ProviderOptions,
+  ReservedKeysOf,
+  ResolutionContext,
+  ResolutionInterceptor,
+} from '../domain/types.js';
+import { detectDuplicateKeys, providerNotFound, reservedKeys } from '../domain/validation.js';
+import { aliasOf, validateAliases } from '../infrastructure/alias.js';
+import { asyncFactory, isAsyncFactory } from '../infrastructure/async-factory.js';
 import { CycleDetector } from '../infrastructure/cycle-detector.js';
+import { validateDeclaredDeps } from '../infrastructure/declared-deps.js';
+import {
+  type Decorator,
+  decorator,
+  isPendingDecorator,
+  stackDecorators,
+} from '../infrastructure/decorator.js';
 import { DependencyTracker } from '../infrastructure/dependency-tracker.js';
+import { factoryProvider } from '../infrastructure/factory-provider.js';
+import {
+  appendContributions,
+  expandMultiBindings,
+  isMulti,
+  type MultiFactory,
+  multi,
+} from '../infrastructure/multi-binding.js';
+import { inNamespace, qualify } from '../infrastructure/namespace.js';
+import {
+  addCandidate,
+  type ConditionalFactory,
+  conditional,
+  isCandidates,
+  isConditional,
+  profiles,
+  selectProfile,
+} from '../infrastructure/profiles.js';
+import { getMeta, type ProviderMeta, withMeta } from '../infrastructure/provider-meta.js';
 import { Resolver } from '../infrastructure/resolver.js';
-import { transient as markTransient } from '../infrastructure/transient.js';
+import { isScoped, scoped } from '../infrastructure/scoped.js';
+import { switchOn } from '../infrastructure/switch.js';
+import { isTransient, transient as markTransient } from '../infrastructure/transient.js';
 import { buildContainerProxy } from './container-proxy.js';
+import { type AnyModule, isModule, type Module } from './module.js';
 
 /**
  * Fluent builder that constructs a typed DI container incrementally.
@@ -23,8 +72,28 @@ export class ContainerBuilder<
   // biome-ignore lint/complexity/noBannedTypes: {} is the correct generic default for "no deps accumulated yet"
   // biome-ignore lint/suspicious/noExplicitAny: `any` allows interfaces without index signatures
   TBuilt extends Record<string, any> = {},
+  TMode extends MethodsMode = MethodsMode,
+  /**
+   * Registrations made on this builder itself. Equal to `TBuilt`, except in a namespaced
+   * module's builder, where the host's keys are readable but not the module's own.
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: `any` allows interfaces without index signatures
+  TOwn extends Record<string, any> = TBuilt,
 > {
   private readonly factories = new Map<string, Factory>();
+  /** Name of the builder each merged-in key came from; keys registered here are absent. */
+  private readonly origins = new Map<string, string>();
+  /** Call site of each key's registration, captured in strict mode. */
+  private readonly sites = new Map<string, string>();
+  /** Modules from `defineModule()` applied to this builder, by name. */
+  private readonly modules = new Map<string, AnyModule>();
+  /** Interceptors registered with `use()`, in registration order. */
+  private readonly interceptors: ResolutionInterceptor[] = [];
+  /** Builder a namespaced module is applied to, when this builder is the module's own. */
+  // biome-ignore lint/suspicious/noExplicitAny: the host's contract and registrations are irrelevant here
+  private host?: ContainerBuilder<any, any>;
+
+  constructor(private readonly options: BuilderOptions = {}) {}
 
   /**
    * Registers a dependency — factory (lazy) or instance (eager).
@@ -33,44 +102,584 @@ export class ContainerBuilder<
    * To register a function as a value: `add('fn', () => myFunction)`.
    */
   add<K extends string & keyof TContract, V extends TContract[K]>(
-    key: K & (K extends (typeof RESERVED_KEYS)[number] ? never : K),
+    key: K & (K extends ReservedKeysOf<TMode> ? never : K),
     factoryOrInstance:
-      | ((c: TBuilt) => V)
+      | ((c: TBuilt, ctx: ResolutionContext) => V)
       // biome-ignore lint/complexity/noBannedTypes: Function is the correct type-level discriminator for factory vs instance
       | (V & (V extends Function ? never : V)),
-  ): ContainerBuilder<TContract, TBuilt & Record<K, V>> {
-    this.validateKey(key);
-    if (typeof factoryOrInstance === 'function') {
-      this.factories.set(key, factoryOrInstance as Factory);
-    } else {
-      this.factories.set(key, () => factoryOrInstance);
-    }
-    return this as unknown as ContainerBuilder<TContract, TBuilt & Record<K, V>>;
+    options?: ProviderOptions<string & keyof TBuilt>,
+  ): ContainerBuilder<TContract, TBuilt & Record<K, V>, TMode, TOwn & Record<K, V>> {
+    const factory =
+      typeof factoryOrInstance === 'function'
+        ? (factoryOrInstance as Factory)
+        : () => factoryOrInstance;
+    this.register(key, applyOptions(factory, options));
+    return this as unknown as ContainerBuilder<
+      TContract,
+      TBuilt & Record<K, V>,
+      TMode,
+      TOwn & Record<K, V>
+    >;
+  }
+
+  /**
+   * Registers a class without writing the factory closure: its constructor receives
+   * the listed deps, in order. Pass them as an array, or declare them on the class as
+   * `static inject = [...] as const`. Each key is type-checked against the matching
+   * constructor parameter. Declared deps are known before resolution — `inspect()`
+   * shows them on a fresh container.
+   *
+   * @example
+   * ```typescript
+   * class UserService {
+   *   static inject = ['userRepo', 'logger'] as const;
+   *   constructor(private repo: UserRepo, private logger: Logger) {}
+   * }
+   *
+   * container()
+   *   .add('userRepo', () => new PgUserRepo())
+   *   .add('logger', () => new ConsoleLogger())
+   *   .addClass('userService', UserService)                        // static inject
+   *   .addClass('auditService', AuditService, ['logger'])          // explicit deps
+   * ```
+   */
+  addClass<K extends string & keyof TContract, C extends Constructor<TContract[K]>>(
+    key: K & (K extends ReservedKeysOf<TMode> ? never : K),
+    cls: C,
+    deps: InjectKeys<ConstructorParameters<C>, TBuilt>,
+    options?: Omit<ProviderOptions, 'deps'>,
+  ): ContainerBuilder<
+    TContract,
+    TBuilt & Record<K, InstanceType<C>>,
+    TMode,
+    TOwn & Record<K, InstanceType<C>>
+  >;
+  addClass<K extends string & keyof TContract, C extends Constructor<TContract[K]>>(
+    key: K & (K extends ReservedKeysOf<TMode> ? never : K),
+    cls: C & StaticInject<C, TBuilt>,
+    options?: Omit<ProviderOptions, 'deps'>,
+  ): ContainerBuilder<
+    TContract,
+    TBuilt & Record<K, InstanceType<C>>,
+    TMode,
+    TOwn & Record<K, InstanceType<C>>
+  >;
+  addClass(
+    key: string,
+    cls: Constructor & { inject?: readonly string[] },
+    depsOrOptions?: readonly string[] | ProviderOptions,
+    options?: ProviderOptions,
+  ): ContainerBuilder<TContract, TBuilt, TMode, TOwn> {
+    const explicit = Array.isArray(depsOrOptions);
+    const deps: readonly string[] = explicit ? depsOrOptions : (cls.inject ?? []);
+    const factory = withMeta(
+      (c) => new cls(...deps.map((dep) => (c as Record<string, unknown>)[dep])),
+      { deps: [...deps] },
+    );
+    this.register(
+      key,
+      applyOptions(factory, explicit ? options : (depsOrOptions as ProviderOptions)),
+    );
+    return this;
   }
 
   /**
    * Registers a transient dependency (new instance on every access).
    */
   addTransient<K extends string & keyof TContract, V extends TContract[K]>(
-    key: K & (K extends (typeof RESERVED_KEYS)[number] ? never : K),
-    factory: (c: TBuilt) => V,
-  ): ContainerBuilder<TContract, TBuilt & Record<K, V>> {
-    this.validateKey(key);
-    this.factories.set(key, markTransient(factory as Factory));
-    return this as unknown as ContainerBuilder<TContract, TBuilt & Record<K, V>>;
+    key: K & (K extends ReservedKeysOf<TMode> ? never : K),
+    factory: (c: TBuilt, ctx: ResolutionContext) => V,
+    options?: ProviderOptions<string & keyof TBuilt>,
+  ): ContainerBuilder<TContract, TBuilt & Record<K, V>, TMode, TOwn & Record<K, V>> {
+    this.register(key, applyOptions(markTransient(factory as Factory), options));
+    return this as unknown as ContainerBuilder<
+      TContract,
+      TBuilt & Record<K, V>,
+      TMode,
+      TOwn & Record<K, V>
+    >;
+  }
+
+  /**
+   * Registers a scoped dependency: declared once here, cached independently in each
+   * `scope()` child. Resolving it from the root container throws `ScopedResolutionError`.
+   */
+  addScoped<K extends string & keyof TContract, V extends TContract[K]>(
+    key: K & (K extends ReservedKeysOf<TMode> ? never : K),
+    factory: (c: TBuilt, ctx: ResolutionContext) => V,
+    options?: ProviderOptions<string & keyof TBuilt>,
+  ): ContainerBuilder<TContract, TBuilt & Record<K, V>, TMode, TOwn & Record<K, V>> {
+    this.register(key, applyOptions(scoped(factory as Factory), options));
+    return this as unknown as ContainerBuilder<
+      TContract,
+      TBuilt & Record<K, V>,
+      TMode,
+      TOwn & Record<K, V>
+    >;
+  }
+
+  /**
+   * Registers a factory provider (assisted injection): `factory` returns a function
+   * taking runtime arguments, and the key resolves to that function. Deps read inside
+   * the produced function — on each call — are tracked under this key.
+   *
+   * @example
+   * ```typescript
+   * container()
+   *   .add('db', () => new Database())
+   *   .addFactory('sessionFor', (c) => (userId: string) => new UserSession(userId, c.db))
+   *   .build()
+   *   .sessionFor('u-42'); // UserSession
+   * ```
+   */
+  addFactory<
+    K extends string & keyof TContract,
+    F extends TContract[K] & ((...args: never[]) => unknown),
+  >(
+    key: K & (K extends ReservedKeysOf<TMode> ? never : K),
+    factory: (c: TBuilt, ctx: ResolutionContext) => F,
+    options?: ProviderOptions<string & keyof TBuilt>,
+  ): ContainerBuilder<TContract, TBuilt & Record<K, F>, TMode, TOwn & Record<K, F>> {
+    this.register(key, applyOptions(factoryProvider(factory as Factory), options));
+    return this as unknown as ContainerBuilder<
+      TContract,
+      TBuilt & Record<K, F>,
+      TMode,
+      TOwn & Record<K, F>
+    >;
+  }
+
+  /**
+   * Registers an async singleton. The factory's Promise is awaited and the settled
+   * instance is cached, so `c.key` is typed as the settled value.
+   * Resolve it with `resolveAsync()` or `preload()` before synchronous access.
+   */
+  addAsync<K extends string & keyof TContract, V extends TContract[K]>(
+    key: K & (K extends ReservedKeysOf<TMode> ? never : K),
+    factory: (c: TBuilt, ctx: ResolutionContext) => Promise<V>,
+    options?: ProviderOptions<string & keyof TBuilt>,
+  ): ContainerBuilder<TContract, TBuilt & Record<K, V>, TMode, TOwn & Record<K, V>> {
+    this.register(key, applyOptions(asyncFactory(factory as Factory<Promise<V>>), options));
+    return this as unknown as ContainerBuilder<
+      TContract,
+      TBuilt & Record<K, V>,
+      TMode,
+      TOwn & Record<K, V>
+    >;
+  }
+
+  /**
+   * Registers one implementation per profile: `build({ profile })` keeps the variant of
+   * that profile, or the `default` variant. `describe()` reports the selected variant.
+   * `build()` throws `ProfileError` when the profile leaves the key without a variant.
+   *
+   * @example
+   * ```typescript
+   * container()
+   *   .addProfiles('mailer', {
+   *     production: (c) => new SmtpMailer(c.config),
+   *     test: () => new InMemoryMailer(),
+   *     default: () => new ConsoleMailer(),
+   *   })
+   *   .build({ profile: 'test' });
+   * ```
+   */
+  addProfiles<
+    K extends string & keyof TContract,
+    R extends Record<string, (c: TBuilt, ctx: ResolutionContext) => TContract[K]>,
+  >(
+    key: K & (K extends ReservedKeysOf<TMode> ? never : K),
+    variants: R,
+    options?: ProviderOptions<string & keyof TBuilt>,
+  ): ContainerBuilder<
+    TContract,
+    TBuilt & Record<K, ReturnType<R[keyof R]>>,
+    TMode,
+    TOwn & Record<K, ReturnType<R[keyof R]>>
+  > {
+    this.register(key, applyOptions(profiles(variants as Record<string, Factory>), options));
+    return this as unknown as ContainerBuilder<
+      TContract,
+      TBuilt & Record<K, ReturnType<R[keyof R]>>,
+      TMode,
+      TOwn & Record<K, ReturnType<R[keyof R]>>
+    >;
+  }
+
+  /**
+   * Registers a provider only when `predicate` accepts the profile passed to
+   * `build({ profile })` (`undefined` without one). The key is typed as optional, so it
+   * does not complete a contract; read it with `optional(c, key)`.
+   * Several `addIf()` for one key are candidates: `build()` keeps the one whose predicate
+   * accepts the profile, and throws `ProfileError` when none or several do.
+   *
+   * @example
+   * ```typescript
+   * container()
+   *   .addIf((profile) => profile !== 'production', 'devTools', () => new DevTools())
+   *   .addIf((profile) => profile === 'production', 'mailer', (c) => new SmtpMailer(c.config))
+   *   .addIf((profile) => profile !== 'production', 'mailer', () => new ConsoleMailer())
+   * ```
+   */
+  addIf<K extends string & keyof TContract, V extends TContract[K]>(
+    predicate: (profile: string | undefined) => boolean,
+    key: K & (K extends ReservedKeysOf<TMode> ? never : K),
+    factory: (c: TBuilt, ctx: ResolutionContext) => V,
+    options?: ProviderOptions<string & keyof TBuilt>,
+  ): ContainerBuilder<
+    TContract,
+    TBuilt & Partial<Record<K, V>>,
+    TMode,
+    TOwn & Partial<Record<K, V>>
+  > {
+    const candidate = applyOptions(conditional(factory as Factory, predicate), options);
+    const existing = this.factories.get(key);
+    if (isConditional(existing) || isCandidates(existing)) {
+      this.validateKey(key);
+      this.factories.set(key, addCandidate(existing, candidate as ConditionalFactory));
+    } else {
+      this.register(key, candidate);
+    }
+    return this as unknown as ContainerBuilder<
+      TContract,
+      TBuilt & Partial<Record<K, V>>,
+      TMode,
+      TOwn & Partial<Record<K, V>>
+    >;
+  }
+
+  /**
+   * Registers a provider that picks its implementation at resolution time: `selector`
+   * names the branch to run. Deps read by the selector and by the chosen branch are both
+   * tracked, and `reset()` of a selector dep re-evaluates the switch on next access.
+   * A selector value naming no branch throws `SwitchError` listing the valid ones.
+   *
+   * @example
+   * ```typescript
+   * container()
+   *   .add('config', () => loadConfig())
+   *   .addSwitch('payment', (c) => c.config.paymentProvider, {
+   *     stripe: (c) => new StripeGateway(c.config.stripeKey),
+   *     paypal: () => new PaypalGateway(),
+   *   })
+   * ```
+   */
+  addSwitch<
+    K extends string & keyof TContract,
+    B extends Record<string, (c: TBuilt, ctx: ResolutionContext) => TContract[K]>,
+  >(
+    key: K & (K extends ReservedKeysOf<TMode> ? never : K),
+    selector: (c: TBuilt, ctx: ResolutionContext) => string,
+    branches: B,
+    options?: ProviderOptions<string & keyof TBuilt>,
+  ): ContainerBuilder<
+    TContract,
+    TBuilt & Record<K, ReturnType<B[keyof B]>>,
+    TMode,
+    TOwn & Record<K, ReturnType<B[keyof B]>>
+  > {
+    const factory = switchOn(selector as Factory<string>, branches as Record<string, Factory>);
+    this.register(key, applyOptions(factory, options));
+    return this as unknown as ContainerBuilder<
+      TContract,
+      TBuilt & Record<K, ReturnType<B[keyof B]>>,
+      TMode,
+      TOwn & Record<K, ReturnType<B[keyof B]>>
+    >;
+  }
+
+  /**
+   * Contributes a provider to a multi-binding. Every contribution is its own provider;
+   * the key resolves to an array of all contributions, in registration order.
+   * Calling it again with the same key appends instead of replacing.
+   */
+  addToSet<K extends string & keyof TContract, V extends SetElement<TContract[K]>>(
+    key: K & (K extends ReservedKeysOf<TMode> ? never : K),
+    factory: (c: TBuilt, ctx: ResolutionContext) => V,
+    options?: ProviderOptions<string & keyof TBuilt>,
+  ): ContainerBuilder<
+    TContract,
+    Omit<TBuilt, K> & Record<K, (ElementOf<TBuilt, K> | V)[]>,
+    TMode,
+    Omit<TOwn, K> & Record<K, (ElementOf<TBuilt, K> | V)[]>
+  > {
+    const contribution = multi(applyOptions(factory as Factory, options)) as MultiFactory;
+    const existing = this.factories.get(key);
+    if (isMulti(existing)) {
+      this.validateKey(key);
+      this.factories.set(key, appendContributions(existing, contribution));
+    } else {
+      this.register(key, contribution);
+    }
+    return this as unknown as ContainerBuilder<
+      TContract,
+      Omit<TBuilt, K> & Record<K, (ElementOf<TBuilt, K> | V)[]>,
+      TMode,
+      Omit<TOwn, K> & Record<K, (ElementOf<TBuilt, K> | V)[]>
+    >;
+  }
+
+  /**
+   * Registers `key` as another name for `target`: both resolve to the same instance.
+   * The alias is not a provider of its own — `inspect()` lists it under `aliases`.
+   * In contract mode, the target's type must be assignable to the alias's contract type.
+   *
+   * @example
+   * ```typescript
+   * container<AppDeps>()
+   *   .add('logger', () => new ConsoleLogger())
+   *   .alias('ILogger', 'logger')
+   * ```
+   */
+  alias<K extends string & keyof TContract, Target extends string & keyof TBuilt>(
+    key: K & (K extends ReservedKeysOf<TMode> ? never : K),
+    target: Target & (TBuilt[Target] extends TContract[K] ? Target : never),
+  ): ContainerBuilder<
+    TContract,
+    TBuilt & Record<K, TBuilt[Target]>,
+    TMode,
+    TOwn & Record<K, TBuilt[Target]>
+  > {
+    this.register(key, aliasOf(target));
+    return this as unknown as ContainerBuilder<
+      TContract,
+      TBuilt & Record<K, TBuilt[Target]>,
+      TMode,
+      TOwn & Record<K, TBuilt[Target]>
+    >;
+  }
+
+  /**
+   * Wraps a previously registered provider: `inner` is the instance produced by the
+   * existing registration, whatever its factory. Decorators stack in registration order.
+   * In `module()`, providers registered on the container can be decorated too.
+   *
+   * @example
+   * ```typescript
+   * container()
+   *   .add('userRepo', (c) => new PgUserRepo(c.db))
+   *   .decorate('userRepo', (inner, c) => new CachingUserRepo(inner, c.cache))
+   * ```
+   */
+  decorate<K extends string & keyof TBuilt>(
+    key: K,
+    fn: (inner: TBuilt[K], c: TBuilt) => TBuilt[K],
+  ): ContainerBuilder<TContract, TBuilt, TMode, TOwn> {
+    const pending = decorator(fn as Decorator) as Factory;
+    const existing = this.factories.get(key);
+    this.factories.set(key, existing ? stackDecorators(existing, pending) : pending);
+    return this;
+  }
+
+  /**
+   * Replaces the provider registered under `key` — the sanctioned way to swap an
+   * implementation, including in strict mode. The lifetime (transient, scoped, async),
+   * tags and decorators of the replaced registration are kept; `describe()` reports
+   * the provider as `overridden`.
+   * Throws `ProviderNotFoundError` if `key` was never registered.
+   *
+   * @example
+   * ```typescript
+   * container({ strict: true })
+   *   .addModule(cacheModule)
+   *   .override('cache', () => new InMemoryCache())
+   * ```
+   */
+  override<K extends string & keyof TBuilt>(
+    key: K,
+    factory: (c: TBuilt, ctx: ResolutionContext) => TBuilt[K],
+    options?: ProviderOptions<string & keyof TBuilt>,
+  ): ContainerBuilder<TContract, TBuilt, TMode, TOwn> {
+    const existing = this.factories.get(key);
+    if (!existing || isPendingDecorator(existing)) {
+      const registered = [...this.factories.keys()].filter(
+        (k) => !isPendingDecorator(this.factories.get(k)),
+      );
+      throw providerNotFound(key, registered);
+    }
+    const { tags, decorators } = getMeta(existing);
+    const replacement = withMeta(sameLifetime(existing, factory as Factory), {
+      tags,
+      decorators,
+      overridden: true,
+    });
+    this.factories.set(key, applyOptions(replacement, options));
+    if (this.options.strict) this.sites.set(key, registrationSite());
+    return this;
   }
 
   /**
    * Applies a module — a function that chains `.add()` calls on this builder.
    * `c` in the module's factories is fully typed with all previously registered deps.
    */
+  addModule<
+    // biome-ignore lint/suspicious/noExplicitAny: `any` allows interfaces without index signatures
+    TNew extends Record<string, any>,
+    // biome-ignore lint/suspicious/noExplicitAny: `any` allows interfaces without index signatures
+    TNewOwn extends Record<string, any>,
+  >(
+    module: (
+      builder: ContainerBuilder<TContract, TBuilt, TMode, TOwn>,
+    ) => ContainerBuilder<TContract, TNew, TMode, TNewOwn>,
+  ): ContainerBuilder<TContract, TNew, TMode, TNewOwn>;
+  /**
+   * Applies a module created with `defineModule()`. Its `requires` must already be
+   * registered — checked here at the type level and at runtime (`ModuleError`).
+   * Modules in its `dependsOn` are applied first; a module already applied to this
+   * builder is skipped. `inspect()` reports the module's name for every provider it registers.
+   */
   // biome-ignore lint/suspicious/noExplicitAny: `any` allows interfaces without index signatures
-  addModule<TNew extends Record<string, any>>(
-    module: (builder: ContainerBuilder<TContract, TBuilt>) => ContainerBuilder<TContract, TNew>,
-  ): ContainerBuilder<TContract, TNew> {
+  addModule<TRequires extends Record<string, any>, TProvides extends Record<string, any>>(
+    module: Module<TRequires, TProvides> & Requirements<TBuilt, TRequires>,
+  ): ContainerBuilder<TContract, TBuilt & TProvides, TMode, TOwn & TProvides>;
+  /**
+   * Applies a module under `namespace`: each provider it registers is reachable as
+   * `c.billing.repo` (or `c['billing.repo']`). Inside the module, `c.repo` still reads
+   * the sibling; keys the module does not register read the host's providers.
+   * A key the module registers is namespaced even if the host registers it too.
+   * `decorate()` calls on host keys apply to the host's providers.
+   *
+   * @example
+   * ```typescript
+   * const app = container()
+   *   .add('db', () => new Database())
+   *   .addModule('billing', (b) => b.add('repo', (c) => new InvoiceRepo(c.db)))
+   *   .addModule('auth', (b) => b.add('repo', (c) => new UserRepo(c.db)))
+   *   .build();
+   *
+   * app.billing.repo; // InvoiceRepo
+   * ```
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: `any` allows interfaces without index signatures
+  addModule<const N extends string, TModule extends Record<string, any>>(
+    namespace: N,
+    module: (
+      // biome-ignore lint/complexity/noBannedTypes: {} is "no registration of the module's own yet"
+      builder: ContainerBuilder<TContract, TBuilt, TMode, {}>,
+      // biome-ignore lint/suspicious/noExplicitAny: the module's accumulated view of the host is irrelevant here
+    ) => ContainerBuilder<TContract, any, TMode, TModule>,
+  ): ContainerBuilder<
+    TContract,
+    TBuilt & Namespaced<N, TModule>,
+    TMode,
+    TOwn & Namespaced<N, TModule>
+  >;
+  addModule<
+    const N extends string,
+    // biome-ignore lint/suspicious/noExplicitAny: `any` allows interfaces without index signatures
+    TRequires extends Record<string, any>,
+    // biome-ignore lint/suspicious/noExplicitAny: `any` allows interfaces without index signatures
+    TProvides extends Record<string, any>,
+  >(
+    namespace: N,
+    module: Module<TRequires, TProvides> & Requirements<TBuilt, TRequires>,
+  ): ContainerBuilder<
+    TContract,
+    TBuilt & Namespaced<N, TProvides>,
+    TMode,
+    TOwn & Namespaced<N, TProvides>
+  >;
+  addModule(
+    first:
+      | string
+      | AnyModule
+      | ((builder: ContainerBuilder<TContract, TBuilt, TMode, TOwn>) => unknown),
+    second?: AnyModule | ((builder: ContainerBuilder<TContract, TBuilt, TMode, TOwn>) => unknown),
+  ): unknown {
+    if (typeof first === 'string' && second) {
+      this.applyNamespaced(first, second);
+      return this;
+    }
+    const module = first as
+      | AnyModule
+      | ((builder: ContainerBuilder<TContract, TBuilt, TMode, TOwn>) => unknown);
+    if (isModule(module)) {
+      this.applyModule(module);
+      return this;
+    }
     return module(this);
   }
 
+  /**
+   * Unions another builder's registrations into this one. Keys registered by both
+   * builders are conflicts, resolved by `options.onConflict` (default `'error'`:
+   * throws `MergeConflictError` naming the builders each key came from).
+   * Multi-bindings are not conflicts — contributions are appended — and neither are
+   * `decorate()` calls targeting a key the other builder provides.
+   *
+   * @example
+   * ```typescript
+   * const billing = container({ name: 'billing' }).add('invoices', () => new InvoiceRepo());
+   * const users = container({ name: 'users' }).add('userRepo', () => new UserRepo());
+   *
+   * const app = billing.merge(users).build(); // app.invoices, app.userRepo
+   * ```
+   */
+  // biome-ignore lint/suspicious/noExplicitAny: `any` allows interfaces without index signatures
+  merge<TOther extends Record<string, any>, P extends ConflictPolicy = 'error'>(
+    // biome-ignore lint/suspicious/noExplicitAny: the other builder's contract is irrelevant here
+    other: ContainerBuilder<any, TOther, any, any>,
+    options?: MergeOptions<P>,
+  ): ContainerBuilder<TContract, Merged<TBuilt, TOther, P>, TMode, Merged<TOwn, TOther, P>> {
+    const policy: ConflictPolicy = options?.onConflict ?? 'error';
+    const incoming = other.factories;
+    for (const key of incoming.keys()) this.validateKey(key);
+    const conflicts = detectDuplicateKeys(this._toRecord(), other._toRecord()).filter(
+      (key) => !combinable(this.factories.get(key), incoming.get(key)),
+    );
+    if (policy === 'error' && conflicts.length > 0) {
+      throw new MergeConflictError(
+        conflicts.map((key) => ({ key, builders: [this.origin(key), other.origin(key)] })),
+      );
+    }
+
+    for (const [key, factory] of incoming) {
+      const existing = this.factories.get(key);
+      if (!existing || (conflicts.includes(key) && policy === 'last-wins')) {
+        this.factories.set(key, factory);
+        this.origins.set(key, other.origin(key));
+        const site = other.sites.get(key);
+        if (site) this.sites.set(key, site);
+      } else if (!conflicts.includes(key)) {
+        this.factories.set(key, combine(existing, factory));
+      }
+    }
+    for (const [name, module] of other.modules) {
+      if (!this.modules.has(name)) this.modules.set(name, module);
+    }
+    for (const interceptor of other.interceptors) {
+      if (!this.interceptors.includes(interceptor)) this.interceptors.push(interceptor);
+    }
+    return this as unknown as ContainerBuilder<
+      TContract,
+      Merged<TBuilt, TOther, P>,
+      TMode,
+      Merged<TOwn, TOther, P>
+    >;
+  }
+
+  /**
+   * Registers hooks run around every resolution of the built container: `beforeResolve`
+   * and `onError` observe it, `afterResolve` may replace the instance (a proxy, a frozen
+   * copy). Interceptors run in registration order, for singletons once and for transients
+   * on every access, and are inherited by `scope()` and `extend()` children.
+   *
+   * @example
+   * ```typescript
+   * container()
+   *   .use({
+   *     beforeResolve: (key) => metrics.start(key),
+   *     afterResolve: (key) => metrics.end(key),
+   *     onError: (key, error) => audit.failure(key, error),
+   *   })
+   *   .add('db', () => new Database())
+   * ```
+   */
+  use(interceptor: ResolutionInterceptor): ContainerBuilder<TContract, TBuilt, TMode, TOwn> {
+    this.interceptors.push(interceptor);
+    return this;
+  }
+
   /**
    * Returns the accumulated factories as a plain record.
    * @internal Used by `module()` on the container.
@@ -81,23 +690,284 @@ export class ContainerBuilder<
 
   /**
    * Builds and returns the final container.
+   * With `{ validate: true }`, also runs `verify()` and throws `ContainerVerificationError`
+   * listing every provider that fails to resolve.
+   *
+   * In contract mode, only type-checks once every required key of the contract has a
+   * provider; the type error names the missing keys. Use `buildPartial()` to build anyway.
    */
-  build(): Container<TBuilt> {
+  build(
+    this: Complete<TContract, TBuilt, ContainerBuilder<TContract, TBuilt, TMode, TOwn>>,
+    options?: BuildOptions,
+  ): Container<TBuilt, TMode> {
+    return (this as ContainerBuilder<TContract, TBuilt, TMode, TOwn>).buildPartial(options);
+  }
+
+  /**
+   * Same as `build()`, without the contract completeness check — for tests that
+   * only wire the part of the contract they exercise.
+   */
+  buildPartial(options?: BuildOptions): Container<TBuilt, TMode> {
+    const factories = expandMultiBindings(selectProfile(new Map(this.factories), options?.profile));
+    for (const [key, factory] of factories) {
+      if (isPendingDecorator(factory)) {
+        const registered = [...factories.keys()].filter(
+          (k) => !isPendingDecorator(factories.get(k)),
+        );
+        throw providerNotFound(key, registered);
+      }
+    }
+    validateAliases(factories, (key) => factories.get(key), [...factories.keys()]);
+    validateDeclaredDeps(factories, (key) => factories.get(key), [...factories.keys()]);
     const resolver = new Resolver({
-      factories: new Map(this.factories),
+      factories,
       cycleDetector: new CycleDetector(),
       dependencyTracker: new DependencyTracker(),
+      interceptors: [...this.interceptors],
     });
-    return buildContainerProxy(resolver, () => new ContainerBuilder()) as Container<TBuilt>;
+    const methods = this.options.methods ?? 'container';
+    const built = buildContainerProxy(
+      resolver,
+      () => new ContainerBuilder({ methods }),
+      methods,
+      options?.profile,
+    ) as Container<TBuilt, TMode>;
+    if (options?.validate) {
+      const report = built.verify();
+      if (!report.valid) throw new ContainerVerificationError(report.failures);
+    }
+    return built;
+  }
+
+  /**
+   * Registers `factory` under `key`. In strict mode, throws `DuplicateProviderError`
+   * if the key is already registered — replacing a provider requires `override()`.
+   * Decorators registered for `key` before its provider are stacked on `factory`.
+   */
+  private register(key: string, factory: Factory): void {
+    this.validateKey(key);
+    const existing = this.factories.get(key);
+    if (this.options.strict) {
+      const site = registrationSite();
+      if (existing && !isPendingDecorator(existing)) {
+        throw new DuplicateProviderError(key, [
+          this.sites.get(key) ?? `(merged from ${this.origin(key)})`,
+          site,
+        ]);
+      }
+      this.sites.set(key, site);
+    }
+    this.factories.set(
+      key,
+      existing && isPendingDecorator(existing) ? stackDecorators(factory, existing) : factory,
+    );
+  }
+
+  /**
+   * Applies `module` and its dependencies once each, then tags every key it
+   * registered with its name.
+   */
+  private applyModule(module: AnyModule): void {
+    const applied = this.modules.get(module.name);
+    if (applied === module) return;
+    if (applied) throw new ModuleError(module.name, 'duplicate_name');
+
+    for (const dependency of module.dependsOn) this.applyModule(dependency);
+    const missing = module.requires.filter((key) => !this.provides(key));
+    if (missing.length > 0) throw new ModuleError(module.name, 'missing_requirement', missing);
+
+    this.modules.set(module.name, module);
+    const before = new Set(this.factories.keys());
+    module.provides(this);
+    for (const [key, factory] of this.factories) {
+      if (before.has(key) || isPendingDecorator(factory)) continue;
+      this.factories.set(key, withMeta(factory, { module: module.name }));
+    }
+  }
+
+  /**
+   * Runs `module` on a fresh builder, then registers what it added under `namespace`.
+   * Decorators it left on keys it does not provide go to this builder's providers.
+   */
+  private applyNamespaced(
+    namespace: string,
+    module: AnyModule | ((builder: ContainerBuilder<TContract, TBuilt, TMode, TOwn>) => unknown),
+  ): void {
+    this.validateKey(namespace);
+    const inner = new ContainerBuilder<TContract, TBuilt, TMode, TOwn>(this.options);
+    inner.host = this;
+    if (isModule(module)) inner.applyModule(module);
+    else module(inner);
+    this.interceptors.push(...inner.interceptors);
+
+    const siblings = new Set(
+      [...inner.factories].filter(([, f]) => !isPendingDecorator(f)).map(([key]) => key),
+    );
+    for (const [key, factory] of inner.factories) {
+      const rebound = inNamespace(factory, namespace, siblings);
+      if (siblings.has(key)) {
+        this.register(qualify(namespace, key), rebound);
+        continue;
+      }
+      const existing = this.factories.get(key);
+      this.factories.set(key, existing ? combine(existing, rebound) : rebound);
+    }
+  }
+
+  /** Whether `key` has a provider here or, for a namespaced module's builder, in its host. */
+  private provides(key: string): boolean {
+    const factory = this.factories.get(key);
+    if (factory && !isPendingDecorator(factory)) return true;
+    return this.host?.provides(key) ?? false;
+  }
+
+  /** Name of the builder that registered `key`, for conflict reports. */
+  private origin(key: string): string {
+    return this.origins.get(key) ?? this.options.name ?? '(unnamed builder)';
   }
 
   private validateKey(key: string): void {
-    if ((RESERVED as readonly string[]).includes(key)) {
-      throw new ReservedKeyError(key, RESERVED);
+    const reserved = reservedKeys(this.options.methods);
+    if (reserved.includes(key)) {
+      throw new ReservedKeyError(key, reserved);
     }
   }
 }
 
+/** Attaches registration options (tags, declared deps) to a factory as provider metadata. */
+function applyOptions<T>(factory: Factory<T>, options: ProviderOptions | undefined): Factory<T> {
+  const meta: ProviderMeta = {};
+  if (options?.tags?.length) meta.tags = [...options.tags];
+  if (options?.deps) meta.deps = [...options.deps];
+  return Object.keys(meta).length > 0 ? withMeta(factory, meta) : factory;
+}
+
+/** `factory` marked with the lifetime of `existing`: transient, scoped, async or singleton. */
+function sameLifetime(existing: Factory, factory: Factory): Factory {
+  if (isTransient(existing)) return markTransient(factory);
+  if (isScoped(existing)) return scoped(factory);
+  if (isAsyncFactory(existing)) return asyncFactory(factory as Factory<Promise<unknown>>);
+  return factory;
+}
+
+/**
+ * Location of the code that called a registration method, read from the stack:
+ * the first frame outside this file, however many builder methods led to `register()`.
+ */
+function registrationSite(): string {
+  const frames = (new Error().stack ?? '')
+    .split('\n')
+    .slice(1)
+    .map((frame) => frame.trim().replace(/^at /, ''));
+  const own = frameFile(frames[0] ?? '');
+  return frames.find((frame) => frameFile(frame) !== own) ?? '(unknown location)';
+}
+
+/** Source file of a stack frame such as `fn (/src/file.ts:12:5)`. */
+function frameFile(frame: string): string | undefined {
+  return /\(?([^()\s]+):\d+:\d+\)?$/.exec(frame)?.[1];
+}
+
+/** Required keys of `T` — optional members of a contract may stay unregistered. */
+type RequiredKeys<T> = {
+  // biome-ignore lint/complexity/noBannedTypes: {} extends Pick<T, K> exactly when K is optional
+  [K in keyof T]-?: {} extends Pick<T, K> ? never : K;
+}[keyof T];
+
+/** Contract keys without a provider yet. Always `never` in free mode. */
+type MissingKeys<TContract, TBuilt> = string extends keyof TContract
+  ? never
+  : Exclude<RequiredKeys<TContract> & string, RequiredKeys<TBuilt>>;
+
+/**
+ * `this` type of `build()`: the builder itself once the contract is covered,
+ * otherwise an object type whose only property names the missing keys.
+ */
+type Complete<TContract, TBuilt, Self> = [MissingKeys<TContract, TBuilt>] extends [never]
+  ? Self
+  : { 'Missing providers for contract keys': MissingKeys<TContract, TBuilt> };
+
+/** Registrations of a module applied under namespace `N`: nested under `N`, and flat as `'N.key'`. */
+type Namespaced<N extends string, T> = { [K in N]: T } & {
+  [K in keyof T & string as `${N}.${K}`]: T[K];
+};
+
+/** Keys a module requires that the host has not registered, or registered with another type. */
+type UnmetRequirements<TBuilt, TRequires> = {
+  [K in keyof TRequires]-?: K extends keyof TBuilt
+    ? TBuilt[K] extends TRequires[K]
+      ? never
+      : K
+    : K;
+}[keyof TRequires];
+
+/**
+ * Intersected with the module passed to `addModule()`: no constraint once the host
+ * covers the module's requirements, otherwise a property naming the unmet keys.
+ */
+type Requirements<TBuilt, TRequires> = [UnmetRequirements<TBuilt, TRequires>] extends [never]
+  ? unknown
+  : { 'Missing requirements for module': UnmetRequirements<TBuilt, TRequires> & string };
+
+/** Class accepted by `addClass()`. */
+// biome-ignore lint/suspicious/noExplicitAny: constructor parameters are checked through InjectKeys
+type Constructor<T = unknown> = new (...args: any[]) => T;
+
+/** Keys of `T` whose registered type is assignable to `V`. */
+type KeysOfType<T, V> = { [K in keyof T & string]: T[K] extends V ? K : never }[keyof T & string];
+
+/** Dependency keys matching each constructor parameter, in order. */
+type InjectKeys<P extends readonly unknown[], T> = { readonly [I in keyof P]: KeysOfType<T, P[I]> };
+
+/** Requires a `static inject` list unless the constructor takes no parameters. */
+type StaticInject<C extends Constructor, T> =
+  ConstructorParameters<C> extends []
+    ? unknown
+    : { readonly inject: InjectKeys<ConstructorParameters<C>, T> };
+
+/** Whether two registrations for the same key merge instead of conflicting. */
+function combinable(existing: Factory | undefined, incoming: Factory | undefined): boolean {
+  return (
+    (isMulti(existing) && isMulti(incoming)) ||
+    isPendingDecorator(existing) ||
+    isPendingDecorator(incoming)
+  );
+}
+
+/** Merges two combinable registrations: appends contributions or stacks decorators. */
+function combine(existing: Factory, incoming: Factory): Factory {
+  if (isMulti(existing) && isMulti(incoming)) return appendContributions(existing, incoming);
+  return isPendingDecorator(existing)
+    ? stackDecorators(incoming, existing)
+    : stackDecorators(existing, incoming);
+}
+
+/** Resulting registrations of a merge under conflict policy `P`. */
+type Merged<A, B, P extends ConflictPolicy> = P extends 'first-wins'
+  ? A & Omit<B, keyof A>
+  : P extends 'last-wins'
+    ? Omit<A, keyof B> & B
+    : A & B;
+
+/** Registrations accumulated by a builder. */
+// biome-ignore lint/suspicious/noExplicitAny: matches any builder regardless of contract
+type BuiltOf<B> = B extends ContainerBuilder<any, infer T> ? T : never;
+
+/** Intersection of the registrations of every builder in `Bs`. */
+type MergedAll<Bs extends readonly unknown[]> = Bs extends readonly [infer Head, ...infer Rest]
+  ? BuiltOf<Head> & MergedAll<Rest>
+  : // biome-ignore lint/complexity/noBannedTypes: {} is the identity of the intersection
+    {};
+
+/** Element type of a multi-binding value. */
+type SetElement<T> = T extends readonly (infer E)[] ? E : unknown;
+
+/** Element type of the multi-binding already registered under `K`, if any. */
+// biome-ignore lint/suspicious/noExplicitAny: `any` allows interfaces without index signatures
+type ElementOf<T extends Record<string, any>, K extends string> = K extends keyof T
+  ? SetElement<T[K]>
+  : never;
+
 /**
  * Creates a new container builder.
  *
@@ -122,6 +992,44 @@ export class ContainerBuilder<
 export function container<
   // biome-ignore lint/suspicious/noExplicitAny: `any` allows interfaces without index signatures
   T extends Record<string, any> = Record<string, unknown>,
->(): ContainerBuilder<T> {
-  return new ContainerBuilder<T>();
+  // biome-ignore lint/complexity/noBannedTypes: {} is the correct generic default for "no deps accumulated yet"
+>(options: BuilderOptions & { methods: '$' }): ContainerBuilder<T, {}, '$'>;
+export function container<
+  // biome-ignore lint/suspicious/noExplicitAny: `any` allows interfaces without index signatures
+  T extends Record<string, any> = Record<string, unknown>,
+  // biome-ignore lint/complexity/noBannedTypes: {} is the correct generic default for "no deps accumulated yet"
+>(options?: BuilderOptions): ContainerBuilder<T, {}, 'container'>;
+export function container(options?: BuilderOptions): ContainerBuilder {
+  return new ContainerBuilder(options);
+}
+
+/**
+ * Merges independent builders into a new one, in argument order — see `ContainerBuilder.merge()`.
+ * The builders themselves are left untouched. Pass `MergeOptions` last to pick a conflict policy;
+ * with `'first-wins'` / `'last-wins'`, the surviving provider is the first / last one in argument order.
+ *
+ * @example
+ * ```typescript
+ * const app = mergeBuilders(billingBuilder, usersBuilder, notificationsBuilder).build();
+ * const dev = mergeBuilders(appBuilder, devOverrides, { onConflict: 'last-wins' }).build();
+ * ```
+ */
+// biome-ignore lint/suspicious/noExplicitAny: matches any builder regardless of contract
+export function mergeBuilders<Bs extends ContainerBuilder<any, any>[]>(
+  ...builders: Bs
+): ContainerBuilder<Record<string, unknown>, MergedAll<Bs>>;
+// biome-ignore lint/suspicious/noExplicitAny: matches any builder regardless of contract
+export function mergeBuilders<Bs extends ContainerBuilder<any, any>[]>(
+  ...args: [...builders: Bs, options: MergeOptions]
+): ContainerBuilder<Record<string, unknown>, MergedAll<Bs>>;
+export function mergeBuilders(
+  ...args: (ContainerBuilder | MergeOptions)[]
+): ContainerBuilder<Record<string, unknown>, Record<string, unknown>> {
+  const last = args[args.length - 1];
+  const options = last instanceof ContainerBuilder ? undefined : (last as MergeOptions);
+  const merged = new ContainerBuilder();
+  for (const builder of args) {
+    if (builder instanceof ContainerBuilder) merged.merge(builder, options);
+  }
+  return merged;
 }
@@ -1,80 +1,174 @@
-import type { Container, Factory, ScopeOptions } from '../domain/types.js';
-import { Validator } from '../domain/validation.js';
+import { AsyncProviderError } from '../domain/errors.js';
+import type { Container, Factory, MethodsMode, ScopeOptions } from '../domain/types.js';
+import { providerNotFound, reservedKeys, Validator } from '../domain/validation.js';
+import { validateAliases } from '../infrastructure/alias.js';
+import { asyncFactory, isAsyncFactory } from '../infrastructure/async-factory.js';
 import { CycleDetector } from '../infrastructure/cycle-detector.js';
+import { validateDeclaredDeps } from '../infrastructure/declared-deps.js';
+import { forwardTo, isPendingDecorator, stackDecorators } from '../infrastructure/decorator.js';
 import { DependencyTracker } from '../infrastructure/dependency-tracker.js';
+import {
+  appendContributions,
+  expandMultiBindings,
+  isMulti,
+  MULTI_MARKER,
+} from '../infrastructure/multi-binding.js';
+import { isNamespace, namespaceView } from '../infrastructure/namespace.js';
+import { selectProfile } from '../infrastructure/profiles.js';
 import { Resolver } from '../infrastructure/resolver.js';
+import { isScoped } from '../infrastructure/scoped.js';
+import { dependentSwitches } from '../infrastructure/switch.js';
+import { isTransient, transient as markTransient } from '../infrastructure/transient.js';
 import { Disposer } from './disposer.js';
 import { Introspection } from './introspection.js';
 import { Preloader } from './preloader.js';
+import { Verifier } from './verifier.js';
 
 const validator = new Validator();
 
 /**
  * Builds the Proxy-based container from a Resolver.
  * Scope and extend are inlined here.
+ * With `methodsMode` `'$'`, every method is reached through `container.$` instead.
+ * `profile` is the one passed to `build()`, applied to the registrations of `module()`.
  * @internal
  */
 export function buildContainerProxy(
   resolver: Resolver,
-  builderFactory?: () => { _toRecord(): Record<string, (c: unknown) => unknown> },
+  builderFactory?: () => { _toRecord(): Record<string, Factory> },
+  methodsMode: MethodsMode = 'container',
+  profile?: string,
 ): Container<Record<string, unknown>> {
   const introspection = new Introspection(resolver);
   const preloader = new Preloader(resolver);
   const disposer = new Disposer(resolver);
+  const verifier = new Verifier(resolver);
+  const keys = () => resolver.getAllRegisteredKeys();
+  /** Whether `key` has a provider here or in a parent, or names a namespace. */
+  const registered = (key: string): boolean =>
+    resolver.getFactory(key) !== undefined || isNamespace(key, keys());
+  /** Resolves `key`, or returns a view when it names a namespace rather than a provider. */
+  const access = (key: string): unknown => {
+    if (!resolver.getFactory(key) && isNamespace(key, keys())) {
+      return namespaceView(key, access, keys);
+    }
+    return resolver.resolve(key);
+  };
   const methods = {
+    /**
+     * Explicit resolution for keys only known at runtime.
+     * Grouped under one accessor to reserve a single key.
+     */
+    $: {
+      get: (key: string) => access(key),
+      tryGet: (key: string) => (registered(key) ? access(key) : undefined),
+      has: (key: string) => registered(key),
+    },
+
     /**
      * Creates a child container with a parent-child chain.
      * - Child gets its own cache; parent singletons are reused on cache miss (lookup walks up).
      * - Overriding a key shadows the parent — the parent's cached instance is untouched.
+     * - Multi-bindings append to the parent's contributions, which stay shared.
+     * - Decorators wrap the parent's instance for this scope only.
      * - Ideal for per-request / per-job isolation (e.g. requestId, traceId).
      */
-    scope: (extra: Record<string, (c: unknown) => unknown>, options?: ScopeOptions) => {
-      validator.validateConfig(extra);
+    scope: (extra: Record<string, Factory>, options?: ScopeOptions) => {
+      validator.validateConfig(extra, reservedKeys(methodsMode));
       const childFactories = new Map<string, Factory>();
+      const inheritedContributions = new Map<string, number>();
       for (const [key, factory] of Object.entries(extra)) {
-        childFactories.set(key, factory as Factory);
+        const inherited = resolver.getFactory(key);
+        if (isPendingDecorator(factory)) {
+          if (!inherited) throw providerNotFound(key, resolver.getAllRegisteredKeys());
+          childFactories.set(
+            key,
+            stackDecorators(decoratableInScope(resolver, key, inherited), factory),
+          );
+          if (isMulti(inherited)) inheritedContributions.set(key, inherited[MULTI_MARKER].length);
+        } else if (isMulti(factory) && isMulti(inherited)) {
+          childFactories.set(key, appendContributions(inherited, factory));
+          inheritedContributions.set(key, inherited[MULTI_MARKER].length);
+        } else {
+          childFactories.set(key, factory as Factory);
+        }
       }
+      validateAliases(
+        childFactories,
+        (key) => childFactories.get(key) ?? resolver.getFactory(key),
+        [...new Set([...childFactories.keys(), ...resolver.getAllRegisteredKeys()])],
+      );
       const childResolver = new Resolver({
-        factories: childFactories,
+        factories: expandMultiBindings(
+          childFactories,
+          (key) => inheritedContributions.get(key) ?? 0,
+        ),
         parent: resolver,
         name: options?.name,
-        cycleDetector: new CycleDetector(),
+        cycleDetector: resolver.getCycleDetector(),
         dependencyTracker: new DependencyTracker(),
+        interceptors: resolver.getInterceptors(),
       });
-      return buildContainerProxy(childResolver, builderFactory);
+      return buildContainerProxy(childResolver, builderFactory, methodsMode, profile);
     },
 
     /**
      * Returns a new flat container with merged factories.
      * - Existing singleton cache is snapshot-copied (shared instances, no parent chain).
      * - New keys are added; duplicate keys override the original factory.
+     * - Multi-bindings append their contributions to the existing ones.
+     * - Decorators wrap the existing provider; an already-resolved instance is reused.
      * - Ideal for plugins, feature modules, or test overrides.
      */
-    extend: (extra: Record<string, (c: unknown) => unknown>) => {
-      validator.validateConfig(extra);
+    extend: (extra: Record<string, Factory>) => {
+      validator.validateConfig(extra, reservedKeys(methodsMode));
       const merged = new Map(resolver.getFactories());
+      const cache = new Map(resolver.getCache());
       for (const [key, factory] of Object.entries(extra)) {
-        merged.set(key, factory as Factory);
+        const existing = merged.get(key);
+        if (isPendingDecorator(factory)) {
+          if (!existing) throw providerNotFound(key, [...merged.keys()]);
+          const instance = cache.get(key);
+          const base =
+            cache.has(key) && !isMulti(existing) ? forwardTo(existing, () => instance) : existing;
+          merged.set(key, stackDecorators(base, factory));
+          cache.delete(key);
+        } else if (isMulti(factory) && isMulti(existing)) {
+          merged.set(key, appendContributions(existing, factory));
+          cache.delete(key);
+        } else {
+          merged.set(key, factory as Factory);
+        }
       }
+      expandMultiBindings(merged);
+      validateAliases(merged, (key) => merged.get(key), [...merged.keys()]);
+      validateDeclaredDeps(merged, (key) => merged.get(key), [...merged.keys()]);
       const newResolver = new Resolver({
         factories: merged,
-        cache: new Map(resolver.getCache()),
+        cache,
         initCalled: resolver.getInitCalled(),
+        inits: resolver.getInits(),
         cycleDetector: new CycleDetector(),
         dependencyTracker: new DependencyTracker(),
+        interceptors: resolver.getInterceptors(),
       });
-      return buildContainerProxy(newResolver, builderFactory);
+      return buildContainerProxy(newResolver, builderFactory, methodsMode, profile);
     },
 
     module: (fn: (b: unknown) => unknown) => {
       if (!builderFactory) throw new Error('module() is not available');
       const builder = builderFactory();
-      const result = fn(builder) as { _toRecord(): Record<string, (c: unknown) => unknown> };
-      return methods.extend(result._toRecord());
+      const result = fn(builder) as { _toRecord(): Record<string, Factory> };
+      const record = selectProfile(new Map(Object.entries(result._toRecord())), profile);
+      return methods.extend(Object.fromEntries(record));
     },
 
     preload: (...keys: string[]) => preloader.preload(...keys),
 
+    resolveAsync: (key: string) => resolver.resolveAsync(key),
+
+    ready: (key: string) => resolver.ready(key),
+
     reset: (...keys: string[]) => {
       const cache = resolver.getCache();
       if (keys.length === 0) {
@@ -83,20 +177,64 @@ export function buildContainerProxy(
         resolver.clearAllDepGraph();
         resolver.clearWarnings();
       } else {
-        for (const key of keys) cache.delete(key);
-        resolver.clearInitState(...keys);
-        resolver.clearDepGraph(...keys);
-        resolver.clearWarningsForKeys(...keys);
+        const switches = dependentSwitches(keys, resolver.getDepGraph(), (key) =>
+          resolver.getFactory(key),
+        );
+        const cleared = [...keys, ...switches];
+        for (const key of cleared) cache.delete(key);
+        resolver.clearInitState(...cleared);
+        resolver.clearDepGraph(...cleared);
+        resolver.clearWarningsForKeys(...cleared);
       }
     },
 
+    byTag: (tag: string) => {
+      const keys = introspection.tagged(tag);
+      // Scoped providers only have instances in scopes: the root leaves them out.
+      const resolvable = resolver.isRoot()
+        ? keys.filter((key) => !isScoped(resolver.getFactory(key)))
+        : keys;
+      return {
+        keys,
+        resolve: () =>
+          Object.fromEntries(
+            resolvable.flatMap((key) => {
+              try {
+                return [[key, resolver.resolve(key)]];
+              } catch (error) {
+                if (isUnsettled(error)) return [];
+                throw error;
+              }
+            }),
+          ),
+        resolveAsync: async () =>
+          Object.fromEntries(
+            await Promise.all(
+              resolvable.map(async (key) => [key, await resolver.resolveAsync(key)] as const),
+            ),
+          ),
+        preload: () =>
+          resolvable.length > 0 ? preloader.preload(...resolvable) : Promise.resolve(),
+      };
+    },
+
     inspect: () => introspection.inspect(),
     describe: (key: string) => introspection.describe(key),
     health: () => introspection.health(),
+    verify: () => verifier.verify(),
     toString: () => introspection.toString(),
 
     dispose: () => disposer.dispose(),
   };
+  const { $: accessor, ...rest } = methods;
+  /**
+   * Properties the container answers itself; every other key is a dependency.
+   * In `'$'` mode it has no prototype, so `toString`, `constructor`... are dependency keys too.
+   */
+  const api: Record<string, unknown> =
+    methodsMode === '$'
+      ? Object.assign(Object.create(null), { $: { ...accessor, ...rest } })
+      : methods;
 
   const proxy = new Proxy(
     {},
@@ -111,38 +249,34 @@ export function buildContainerProxy(
 
         const key = prop;
 
-        if (key in methods) {
-          return methods[key as keyof typeof methods];
+        if (key in api) {
+          return api[key];
         }
 
-        return resolver.resolve(key);
+        return access(key);
       },
 
       has(_target, prop) {
         if (typeof prop === 'symbol') return false;
         const key = prop;
-        return (
-          key in methods ||
-          resolver.getFactories().has(key) ||
-          resolver.getAllRegisteredKeys().includes(key)
-        );
+        return key in api || registered(key);
       },
 
       ownKeys() {
-        return [...resolver.getAllRegisteredKeys(), ...Object.keys(methods)];
+        return [...resolver.getAllRegisteredKeys(), ...Object.keys(api)];
       },
 
       getOwnPropertyDescriptor(_target, prop) {
         if (typeof prop === 'symbol') return undefined;
         const key = prop;
         if (
-          key in methods ||
+          key in api ||
           resolver.getFactories().has(key) ||
           resolver.getAllRegisteredKeys().includes(key)
         ) {
           return {
             configurable: true,
-            enumerable: !(key in methods),
+            enumerable: !(key in api),
             writable: false,
           };
         }
@@ -153,3 +287,28 @@ export function buildContainerProxy(
 
   return proxy as Container<Record<string, unknown>>;
 }
+
+/** Whether `error` reports the requested provider itself as an async provider not awaited yet. */
+function isUnsettled(error: unknown): boolean {
+  return error instanceof AsyncProviderError && error.details.chain.length === 0;
+}
+
+/**
+ * Factory a scope decorates in place of the parent's `key`. Scoped providers and
+ * multi-binding collectors are re-run in the child; anything else forwards to the
+ * parent's instance so it stays shared and is only wrapped for this scope.
+ */
+function decoratableInScope(parent: Resolver, key: string, inherited: Factory): Factory {
+  if (isScoped(inherited) || isMulti(inherited)) return inherited;
+  if (isAsyncFactory(inherited)) {
+    return forwardTo(
+      inherited,
+      asyncFactory(() => parent.resolveAsync(key)),
+    );
+  }
+  const resolveInParent = () => parent.resolve(key);
+  return forwardTo(
+    inherited,
+    isTransient(inherited) ? markTransient(resolveInParent) : resolveInParent,
+  );
+}
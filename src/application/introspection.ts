@@ -2,9 +2,15 @@ import type {
   ContainerGraph,
   ContainerHealth,
   ContainerWarning,
+  Factory,
   IResolver,
   ProviderInfo,
 } from '../domain/types.js';
+import { ALIAS_MARKER, isAlias } from '../infrastructure/alias.js';
+import { declaredDeps } from '../infrastructure/declared-deps.js';
+import { isFactoryProvider } from '../infrastructure/factory-provider.js';
+import { getMeta } from '../infrastructure/provider-meta.js';
+import { isScoped } from '../infrastructure/scoped.js';
 import { isTransient } from '../infrastructure/transient.js';
 
 /**
@@ -19,39 +25,56 @@ export class Introspection {
    */
   inspect(): ContainerGraph {
     const providers: Record<string, ProviderInfo> = {};
+    const aliases: Record<string, string> = {};
+    const namespaces: Record<string, string[]> = {};
     for (const [key, factory] of this.resolver.getFactories()) {
-      providers[key] = {
-        key,
-        resolved: this.resolver.isResolved(key),
-        deps: this.resolver.getDepGraph().get(key) ?? [],
-        scope: isTransient(factory) ? 'transient' : 'singleton',
-      };
+      if (isAlias(factory)) {
+        aliases[key] = factory[ALIAS_MARKER];
+      } else {
+        providers[key] = this.providerInfo(key, factory);
+      }
+      const { namespace } = getMeta(factory);
+      if (namespace) namespaces[namespace] = [...(namespaces[namespace] ?? []), key];
     }
     const name = this.resolver.getName();
-    return name ? { name, providers } : { providers };
+    const graph: ContainerGraph = name ? { name, providers } : { providers };
+    if (Object.keys(aliases).length > 0) graph.aliases = aliases;
+    if (Object.keys(namespaces).length > 0) graph.namespaces = namespaces;
+    return graph;
   }
 
   /**
    * Returns detailed information about a specific provider.
+   * For an alias, describes its target and sets `aliasOf`.
    */
   describe(key: string): ProviderInfo {
     const factory = this.resolver.getFactories().get(key);
     if (!factory) {
       return { key, resolved: false, deps: [], scope: 'singleton' };
     }
-    return {
-      key,
-      resolved: this.resolver.isResolved(key),
-      deps: this.resolver.getDepGraph().get(key) ?? [],
-      scope: isTransient(factory) ? 'transient' : 'singleton',
-    };
+    if (isAlias(factory)) {
+      const target = factory[ALIAS_MARKER];
+      return { ...this.describe(target), key, aliasOf: target };
+    }
+    return this.providerInfo(key, factory);
+  }
+
+  /**
+   * Returns the keys registered with `tag`, including those inherited from parent scopes.
+   */
+  tagged(tag: string): string[] {
+    return this.resolver
+      .getAllRegisteredKeys()
+      .filter((key) => getMeta(this.resolver.getFactory(key)).tags?.includes(tag));
   }
 
   /**
    * Returns container health status with warnings.
    */
   health(): ContainerHealth {
-    const allKeys = [...this.resolver.getFactories().keys()];
+    const allKeys = [...this.resolver.getFactories()]
+      .filter(([, factory]) => !isAlias(factory))
+      .map(([key]) => key);
     const resolvedKeys = this.resolver.getResolvedKeys();
     const resolvedSet = new Set(resolvedKeys);
 
@@ -69,15 +92,50 @@ export class Introspection {
     };
   }
 
+  /** Tracked deps once the provider has run; until then, the deps declared at registration. */
+  private depsOf(key: string, factory: Factory): string[] {
+    return this.resolver.getDepGraph().get(key) ?? declaredDeps(factory) ?? [];
+  }
+
+  private providerInfo(key: string, factory: Factory): ProviderInfo {
+    const info: ProviderInfo = {
+      key,
+      resolved: this.resolver.isResolved(key),
+      deps: this.depsOf(key, factory),
+      scope: scopeOf(factory),
+    };
+    if (isFactoryProvider(factory)) {
+      info.kind = 'factory';
+      const produced = this.resolver.getCache().get(key);
+      if (typeof produced === 'function') info.arity = produced.length;
+    }
+    const optionalDeps = this.resolver.getOptionalDepGraph().get(key);
+    if (optionalDeps?.length) info.optionalDeps = [...optionalDeps];
+    const lazyDeps = this.resolver.getLazyDepGraph().get(key);
+    if (lazyDeps?.length) info.lazyDeps = [...lazyDeps];
+    const { tags, decorators, overridden, module, namespace, profile } = getMeta(factory);
+    if (tags) info.tags = [...tags];
+    if (decorators) info.decorators = decorators.map((d) => d.name || 'anonymous');
+    if (overridden) info.overridden = true;
+    if (module) info.module = module;
+    if (namespace) info.namespace = namespace;
+    if (profile) info.profile = profile;
+    return info;
+  }
+
   /**
    * Returns a human-readable representation of the container.
    */
   toString(): string {
     const parts: string[] = [];
-    for (const [key] of this.resolver.getFactories()) {
+    for (const [key, factory] of this.resolver.getFactories()) {
+      if (isAlias(factory)) {
+        parts.push(`${key} = ${factory[ALIAS_MARKER]}`);
+        continue;
+      }
       const resolved = this.resolver.isResolved(key);
-      const deps = this.resolver.getDepGraph().get(key);
-      const depsStr = deps && deps.length > 0 ? ` -> [${deps.join(', ')}]` : '';
+      const deps = this.depsOf(key, factory);
+      const depsStr = deps.length > 0 ? ` -> [${deps.join(', ')}]` : '';
       const status = resolved ? '(resolved)' : '(pending)';
       parts.push(`${key}${depsStr} ${status}`);
     }
@@ -86,3 +144,9 @@ export class Introspection {
     return `${label} { ${parts.join(', ')} }`;
   }
 }
+
+function scopeOf(factory: Factory): ProviderInfo['scope'] {
+  if (isTransient(factory)) return 'transient';
+  if (isScoped(factory)) return 'scoped';
+  return 'singleton';
+}
@@ -0,0 +1,133 @@
+import type { MethodsMode } from '../domain/types.js';
+import type { ContainerBuilder } from './container-builder.js';
+
+/**
+ * Symbol used to mark a value as a module created by `defineModule()`.
+ */
+export const MODULE_MARKER = Symbol.for('inwire:module');
+
+/**
+ * Builder handed to a module's `provides`: free mode, with the module's
+ * requirements already registered. Annotate `provides` with it to type `c`.
+ */
+export type ModuleBuilder<
+  // biome-ignore lint/suspicious/noExplicitAny: `any` allows interfaces without index signatures
+  // biome-ignore lint/complexity/noBannedTypes: {} is "nothing required"
+  TRequires extends Record<string, any> = {},
+  // biome-ignore lint/complexity/noBannedTypes: {} is "no registration of the module's own yet"
+> = ContainerBuilder<Record<string, unknown>, TRequires, MethodsMode, {}>;
+
+/**
+ * A reusable module: registrations plus the keys it needs from its host.
+ * `TRequires` are the keys the host must have registered before applying it;
+ * `TProvides` are the keys it registers, including those of its dependencies — even keys
+ * its host also registers.
+ */
+export interface Module<
+  // biome-ignore lint/suspicious/noExplicitAny: `any` allows interfaces without index signatures
+  TRequires extends Record<string, any>,
+  // biome-ignore lint/suspicious/noExplicitAny: `any` allows interfaces without index signatures
+  TProvides extends Record<string, any>,
+> {
+  readonly [MODULE_MARKER]: true;
+  /** Unique name, reported as `module` by `inspect()` for every provider the module registers. */
+  readonly name: string;
+  /** Keys the module reads from its host. Checked when the module is applied. */
+  readonly requires: readonly string[];
+  /** Modules applied before this one. Each module is applied at most once per builder. */
+  readonly dependsOn: readonly AnyModule[];
+  /** Registers the module's providers on the host builder. */
+  readonly provides: (
+    // biome-ignore lint/suspicious/noExplicitAny: the host's contract is irrelevant here
+    // biome-ignore lint/complexity/noBannedTypes: {} is "no registration of the module's own yet"
+    builder: ContainerBuilder<any, TRequires, any, {}>,
+    // biome-ignore lint/suspicious/noExplicitAny: the host's contract and registrations are irrelevant here
+  ) => ContainerBuilder<any, any, any, TProvides>;
+}
+
+/** A module whatever it requires or provides. */
+// biome-ignore lint/suspicious/noExplicitAny: `unknown` would not accept modules with specific requirements
+export type AnyModule = Module<any, any>;
+
+/** Keys provided by a list of modules. */
+type ProvidedBy<TDeps extends readonly AnyModule[]> = TDeps extends readonly [
+  // biome-ignore lint/suspicious/noExplicitAny: any module, whatever it requires
+  Module<any, infer P>,
+  ...infer Rest extends readonly AnyModule[],
+]
+  ? P & ProvidedBy<Rest>
+  : // biome-ignore lint/complexity/noBannedTypes: {} is the identity of the intersection
+    {};
+
+/** Keys required by a list of modules. */
+type RequiredBy<TDeps extends readonly AnyModule[]> = TDeps extends readonly [
+  // biome-ignore lint/suspicious/noExplicitAny: any module, whatever it provides
+  Module<infer R, any>,
+  ...infer Rest extends readonly AnyModule[],
+]
+  ? R & RequiredBy<Rest>
+  : // biome-ignore lint/complexity/noBannedTypes: {} is the identity of the intersection
+    {};
+
+/**
+ * Defines a reusable module. Its `requires` are type-checked against the host builder
+ * when the module is passed to `addModule()`, and checked again at runtime. Modules in
+ * `dependsOn` are applied first; what they provide need not be registered by the host.
+ *
+ * Type `c` in the module's factories by annotating `provides` with `ModuleBuilder`.
+ *
+ * @example
+ * ```typescript
+ * const dbModule = defineModule({
+ *   name: 'db',
+ *   requires: ['config', 'logger'],
+ *   provides: (b: ModuleBuilder<{ config: Config; logger: Logger }>) =>
+ *     b.add('db', (c) => new Database(c.config.dbUrl, c.logger)),
+ * });
+ *
+ * container()
+ *   .add('config', () => loadConfig())
+ *   .add('logger', () => new ConsoleLogger())
+ *   .addModule(dbModule)
+ *   .build();
+ * ```
+ */
+export function defineModule<
+  // biome-ignore lint/suspicious/noExplicitAny: `any` allows interfaces without index signatures
+  TRequires extends Record<string, any>,
+  // biome-ignore lint/suspicious/noExplicitAny: `any` allows interfaces without index signatures
+  TProvides extends Record<string, any>,
+  const TDeps extends readonly AnyModule[] = [],
+>(definition: {
+  name: string;
+  requires?: readonly (keyof TRequires & string)[];
+  dependsOn?: TDeps;
+  provides: (builder: ModuleBuilder<TRequires>) => ContainerBuilder<
+    // biome-ignore lint/suspicious/noExplicitAny: the module's own builder is free mode
+    any,
+    // biome-ignore lint/suspicious/noExplicitAny: only the module's own registrations are provided
+    any,
+    // biome-ignore lint/suspicious/noExplicitAny: the module's own builder is free mode
+    any,
+    TProvides
+  >;
+}): Module<
+  Omit<TRequires, keyof ProvidedBy<TDeps>> & RequiredBy<TDeps>,
+  TProvides & ProvidedBy<TDeps>
+> {
+  return {
+    [MODULE_MARKER]: true,
+    name: definition.name,
+    requires: [...(definition.requires ?? [])],
+    dependsOn: [...(definition.dependsOn ?? [])],
+    provides: definition.provides,
+  } as unknown as Module<
+    Omit<TRequires, keyof ProvidedBy<TDeps>> & RequiredBy<TDeps>,
+    TProvides & ProvidedBy<TDeps>
+  >;
+}
+
+/** Checks if a value is a module created by `defineModule()`. */
+export function isModule(value: unknown): value is AnyModule {
+  return typeof value === 'object' && value !== null && MODULE_MARKER in value;
+}
@@ -1,4 +1,7 @@
 import type { IResolver } from '../domain/types.js';
+import { isAlias } from '../infrastructure/alias.js';
+import { isAsyncFactory } from '../infrastructure/async-factory.js';
+import { isScoped } from '../infrastructure/scoped.js';
 
 /**
  * Groups keys into topological levels using Kahn's algorithm (BFS).
@@ -54,19 +57,32 @@ export function topologicalLevels(depGraph: Map<string, string[]>, keys: Set<str
 
 /**
  * Use Case: pre-resolve and initialize container dependencies in topological order.
- * Independent deps at the same depth level are initialized in parallel.
+ * Async factories are awaited concurrently; independent deps at the same depth level
+ * are initialized in parallel.
  */
 export class Preloader {
   constructor(private readonly resolver: IResolver) {}
 
   async preload(...keys: string[]): Promise<void> {
-    const toResolve = keys.length > 0 ? keys : [...this.resolver.getFactories().keys()];
+    const toResolve =
+      keys.length > 0
+        ? keys
+        : [...this.resolver.getFactories()]
+            .filter(([, f]) => !isScoped(f) && !isAlias(f))
+            .map(([key]) => key);
 
     const cacheKeysBefore = new Set(this.resolver.getCache().keys());
     this.resolver.setDeferOnInit(true);
     try {
-      for (const key of toResolve) {
-        this.resolver.resolve(key);
+      // Async providers first, so sync factories reading them find them settled.
+      const asyncKeys = toResolve.filter((key) => isAsyncFactory(this.resolver.getFactory(key)));
+      const syncKeys = toResolve.filter((key) => !asyncKeys.includes(key));
+      for (const group of [asyncKeys, syncKeys]) {
+        const results = await Promise.allSettled(
+          group.map((key) => this.resolver.resolveAsync(key)),
+        );
+        const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+        if (failure) throw failure.reason;
       }
     } catch (error) {
       const cache = this.resolver.getCache();
@@ -78,7 +94,12 @@ export class Preloader {
       this.resolver.setDeferOnInit(false);
     }
 
+    // Optional deps that are registered order onInit like required ones; lazy deps do not.
     const depGraph = this.resolver.getDepGraph();
+    for (const [key, optionalDeps] of this.resolver.getOptionalDepGraph()) {
+      const present = optionalDeps.filter((dep) => this.resolver.getFactory(dep) !== undefined);
+      depGraph.set(key, [...(depGraph.get(key) ?? []), ...present]);
+    }
     const allKeys = new Set<string>();
     const collectDeps = (key: string) => {
       if (allKeys.has(key)) return;
@@ -0,0 +1,63 @@
+import { AsyncProviderError, type ContainerError } from '../domain/errors.js';
+import type { Factory, IResolver, VerificationReport } from '../domain/types.js';
+import { isAlias } from '../infrastructure/alias.js';
+import { isAsyncFactory } from '../infrastructure/async-factory.js';
+import { CycleDetector } from '../infrastructure/cycle-detector.js';
+import { unforwarded } from '../infrastructure/decorator.js';
+import { DependencyTracker } from '../infrastructure/dependency-tracker.js';
+import { Resolver } from '../infrastructure/resolver.js';
+
+/**
+ * Use Case: resolve every provider in a throwaway resolver and collect every failure.
+ * The throwaway root holds all registered factories; a child of it resolves the keys,
+ * so scoped providers are checked too. Factories forwarding to an instance of the
+ * container (decorated in a scope or by `extend()`) are replaced by the factory they
+ * forward to. The container's own cache, init state and warnings are left untouched,
+ * and `onInit()` is never called.
+ */
+export class Verifier {
+  constructor(private readonly resolver: IResolver) {}
+
+  verify(): VerificationReport {
+    const factories = new Map<string, Factory>();
+    for (const key of this.resolver.getAllRegisteredKeys()) {
+      const factory = this.resolver.getFactory(key);
+      if (factory) factories.set(key, unforwarded(factory));
+    }
+    const root = throwaway(factories);
+    const scope = throwaway(new Map(), root);
+
+    const report: VerificationReport = { valid: true, checked: [], skipped: [], failures: [] };
+    for (const [key, factory] of factories) {
+      if (isAlias(factory)) continue;
+      if (isAsyncFactory(factory)) {
+        report.skipped.push(key);
+        continue;
+      }
+      try {
+        scope.resolve(key);
+        report.checked.push(key);
+      } catch (error) {
+        if (error instanceof AsyncProviderError) {
+          report.skipped.push(key);
+        } else {
+          report.checked.push(key);
+          report.failures.push({ key, error: error as ContainerError });
+        }
+      }
+    }
+    report.valid = report.failures.length === 0;
+    return report;
+  }
+}
+
+function throwaway(factories: Map<string, Factory>, parent?: Resolver): Resolver {
+  const resolver = new Resolver({
+    factories,
+    parent,
+    cycleDetector: parent?.getCycleDetector() ?? new CycleDetector(),
+    dependencyTracker: new DependencyTracker(),
+  });
+  resolver.setDeferOnInit(true);
+  return resolver;
+}
@@ -1,4 +1,4 @@
-import type { ContainerWarning } from './types.js';
+import type { ContainerWarning, VerificationFailure } from './types.js';
 
 /**
  * Base class for all container errors.
@@ -115,22 +115,29 @@ export class ProviderNotFoundError extends ContainerError {
  * ```typescript
  * // CircularDependencyError: Circular dependency detected while resolving 'authService'.
  * // Cycle: authService -> userService -> authService
+ *
+ * // Across scopes, each hop names the scope that resolved it:
+ * // Cycle: ctx (request) -> user (root) -> ctx (root)
  * ```
  */
 export class CircularDependencyError extends ContainerError {
   readonly hint: string;
-  readonly details: { key: string; chain: string[]; cycle: string };
+  readonly details: { key: string; chain: string[]; cycle: string; scopes?: string[] };
 
-  constructor(key: string, chain: string[]) {
-    const cycle = [...chain, key].join(' -> ');
+  /** `scopes` names the scope of each hop of `[...chain, key]`, when known. */
+  constructor(key: string, chain: string[], scopes?: string[]) {
+    const hops = [...chain, key];
+    const annotated = scopes !== undefined && new Set(scopes).size > 1;
+    const cycle = hops.map((hop, i) => (annotated ? `${hop} (${scopes[i]})` : hop)).join(' -> ');
     super(`Circular dependency detected while resolving '${chain[0]}'.\n\nCycle: ${cycle}`);
     this.hint = [
       'To fix:',
       '  1. Extract shared logic into a new dependency both can use',
       "  2. Restructure so one doesn't depend on the other",
       '  3. Use a mediator/event pattern to decouple them',
+      `  4. If the cycle is legitimate, defer one side: lazy(c, '${key}') returns a thunk resolved on call`,
     ].join('\n');
-    this.details = { key, chain, cycle };
+    this.details = { key, chain, cycle, ...(annotated && { scopes }) };
   }
 }
 
@@ -185,6 +192,313 @@ export class FactoryError extends ContainerError {
   }
 }
 
+/**
+ * Thrown when an async provider is accessed synchronously before it has settled.
+ * Property access cannot await, so async providers must be resolved first.
+ *
+ * @example
+ * ```typescript
+ * container.db;
+ * // AsyncProviderError: Async provider 'db' has not been resolved yet.
+ * // hint: "await container.resolveAsync('db')"
+ * ```
+ */
+export class AsyncProviderError extends ContainerError {
+  readonly hint: string;
+  readonly details: { key: string; chain: string[] };
+
+  constructor(key: string, chain: string[]) {
+    const chainStr =
+      chain.length > 0
+        ? `\n\nResolution chain: ${[...chain, `${key} (async, not settled)`].join(' -> ')}`
+        : '';
+    super(`Async provider '${key}' has not been resolved yet.${chainStr}`);
+    this.hint =
+      chain.length > 0
+        ? [
+            `Declare it in the deps of '${chain[chain.length - 1]}' (and of each provider up the chain),`,
+            `so that await container.resolveAsync('${chain[0]}') settles it before running the factories:`,
+            `  { deps: ['${key}'] }`,
+            '  // or settle it first: await container.preload()',
+          ].join('\n')
+        : [
+            'Await it before synchronous access:',
+            `  await container.resolveAsync('${key}')`,
+            '  // or at startup: await container.preload()',
+          ].join('\n');
+    this.details = { key, chain };
+  }
+}
+
+/**
+ * Thrown when a scoped provider is resolved outside of a `scope()` child,
+ * either directly or as a dependency of a root-level singleton.
+ *
+ * @example
+ * ```typescript
+ * app.unitOfWork;
+ * // ScopedResolutionError: Scoped provider 'unitOfWork' cannot be resolved from the root container.
+ * // hint: "Create a scope first: app.scope({}).unitOfWork"
+ * ```
+ */
+export class ScopedResolutionError extends ContainerError {
+  readonly hint: string;
+  readonly details: { key: string; chain: string[] };
+
+  constructor(key: string, chain: string[]) {
+    const chainStr =
+      chain.length > 0 ? `\n\nResolution chain: ${[...chain, `${key} (scoped)`].join(' -> ')}` : '';
+    super(`Scoped provider '${key}' cannot be resolved from the root container.${chainStr}`);
+    const dependent = chain[chain.length - 1];
+    this.hint = dependent
+      ? [
+          `'${dependent}' is resolved at the root but depends on scoped '${key}'.`,
+          'To fix:',
+          `  1. Register '${dependent}' with addScoped() too`,
+          `  2. Resolve it through a scope: app.scope({}).${chain[0]}`,
+        ].join('\n')
+      : `Create a scope first: app.scope({}).${key}`;
+    this.details = { key, chain };
+  }
+}
+
+/**
+ * Thrown at `build()` when an alias points to a key that is not registered,
+ * or when aliases point to each other in a loop.
+ *
+ * @example
+ * ```typescript
+ * container().add('logger', () => new Logger()).alias('ILogger', 'loger').build();
+ * // AliasError: Alias 'ILogger' points to 'loger', which is not registered.
+ * // hint: "Did you mean 'logger'? .alias('ILogger', 'logger')"
+ * ```
+ */
+export class AliasError extends ContainerError {
+  readonly hint: string;
+  readonly details: {
+    alias: string;
+    reason: 'missing_target' | 'loop';
+    path: string[];
+    suggestion: string | undefined;
+  };
+
+  constructor(
+    alias: string,
+    reason: 'missing_target' | 'loop',
+    path: string[],
+    suggestion?: string,
+  ) {
+    const target = path[path.length - 1];
+    super(
+      reason === 'loop'
+        ? `Alias '${alias}' never reaches a provider.\n\nAlias loop: ${path.join(' -> ')}`
+        : `Alias '${alias}' points to '${target}', which is not registered.${path.length > 2 ? `\n\nAlias chain: ${path.join(' -> ')}` : ''}`,
+    );
+    const source = path[path.length - 2];
+    this.hint =
+      reason === 'loop'
+        ? `Point one of the aliases at a registered provider, e.g. .alias('${source}', '<providerKey>')`
+        : suggestion
+          ? `Did you mean '${suggestion}'? .alias('${source}', '${suggestion}')`
+          : `Register '${target}' before building:\n  container().add('${target}', (c) => /* ... */)`;
+    this.details = { alias, reason, path, suggestion };
+  }
+}
+
+/**
+ * Thrown in strict mode (`container({ strict: true })`) when a key is registered twice.
+ * Names both registration sites.
+ *
+ * @example
+ * ```typescript
+ * container({ strict: true }).add('cache', () => new Redis()).add('cache', () => new Memcached());
+ * // DuplicateProviderError: 'cache' is already registered.
+ * // hint: "Replace it explicitly: .override('cache', (c) => /* ... *\/)"
+ * ```
+ */
+export class DuplicateProviderError extends ContainerError {
+  readonly hint: string;
+  readonly details: { key: string; sites: [first: string, second: string] };
+
+  constructor(key: string, sites: [first: string, second: string]) {
+    super(
+      `'${key}' is already registered.\n\n  First registration: ${sites[0]}\n  Second registration: ${sites[1]}`,
+    );
+    this.hint = [
+      'To fix:',
+      `  1. Replace it explicitly: .override('${key}', (c) => /* ... */)`,
+      '  2. Rename one of the providers if both are needed',
+    ].join('\n');
+    this.details = { key, sites };
+  }
+}
+
+/**
+ * Thrown by `merge()` / `mergeBuilders()` when builders register the same key
+ * and the conflict policy is `'error'`. Lists every conflicting key with the
+ * names of the builders that registered it.
+ *
+ * @example
+ * ```typescript
+ * container({ name: 'billing' }).add('db', ...).merge(container({ name: 'users' }).add('db', ...));
+ * // MergeConflictError: Cannot merge builders: 'db' is registered more than once.
+ * // hint: "Rename the conflicting providers, or pick a policy: .merge(other, { onConflict: 'last-wins' })"
+ * ```
+ */
+export class MergeConflictError extends ContainerError {
+  readonly hint: string;
+  readonly details: { conflicts: { key: string; builders: string[] }[] };
+
+  constructor(conflicts: { key: string; builders: string[] }[]) {
+    const keys = conflicts.map((c) => `'${c.key}'`).join(', ');
+    const lines = conflicts.map((c) => `  ${c.key}: ${c.builders.join(', ')}`);
+    super(
+      `Cannot merge builders: ${keys} ${conflicts.length === 1 ? 'is' : 'are'} registered more than once.\n\n${lines.join('\n')}`,
+    );
+    this.hint = [
+      'To fix:',
+      '  1. Rename the conflicting providers in one of the builders',
+      "  2. Keep the existing providers: .merge(other, { onConflict: 'first-wins' })",
+      "  3. Replace them with the incoming ones: .merge(other, { onConflict: 'last-wins' })",
+    ].join('\n');
+    this.details = { conflicts };
+  }
+}
+
+/**
+ * Thrown by `build({ validate: true })` when `verify()` finds failing providers.
+ * Lists every failure, not only the first.
+ *
+ * @example
+ * ```typescript
+ * container().add('service', (c) => new Service(c.db)).build({ validate: true });
+ * // ContainerVerificationError: Container verification failed: 1 provider cannot be resolved.
+ * //   service: ProviderNotFoundError — Cannot resolve 'service': dependency 'db' not found.
+ * ```
+ */
+export class ContainerVerificationError extends ContainerError {
+  readonly hint: string;
+  readonly details: { failures: VerificationFailure[] };
+
+  constructor(failures: VerificationFailure[]) {
+    const count = `${failures.length} provider${failures.length === 1 ? '' : 's'}`;
+    const lines = failures.map(
+      ({ key, error }) => `  ${key}: ${error.name} — ${error.message.split('\n')[0]}`,
+    );
+    super(`Container verification failed: ${count} cannot be resolved.\n\n${lines.join('\n')}`);
+    this.hint = `Fix each failure listed in details.failures — every error carries its own hint. Run container.verify() for the report without throwing.`;
+    this.details = { failures };
+  }
+}
+
+/**
+ * Thrown by `addModule()` when a module from `defineModule()` cannot be applied:
+ * the host lacks keys the module requires, or a different module with the same
+ * name was already applied to the builder.
+ *
+ * @example
+ * ```typescript
+ * container().add('config', ...).addModule(dbModule);
+ * // ModuleError: Module 'db' requires 'logger', which is not registered.
+ * // hint: "Register it before applying the module: .add('logger', (c) => ...)"
+ * ```
+ */
+export class ModuleError extends ContainerError {
+  readonly hint: string;
+  readonly details: {
+    module: string;
+    reason: 'missing_requirement' | 'duplicate_name';
+    missing: string[];
+  };
+
+  constructor(
+    module: string,
+    reason: 'missing_requirement' | 'duplicate_name',
+    missing: string[] = [],
+  ) {
+    if (reason === 'duplicate_name') {
+      super(`A different module named '${module}' was already applied to this builder.`);
+      this.hint = 'Give each module a unique name in defineModule({ name }).';
+    } else {
+      const keys = missing.map((k) => `'${k}'`).join(', ');
+      super(
+        `Module '${module}' requires ${keys}, which ${missing.length === 1 ? 'is' : 'are'} not registered.`,
+      );
+      this.hint = [
+        'To fix:',
+        `  1. Register ${missing.length === 1 ? 'it' : 'them'} before applying the module: .add('${missing[0]}', (c) => ...)`,
+        '  2. Apply the module that provides it first, or list it in defineModule({ dependsOn })',
+      ].join('\n');
+    }
+    this.details = { module, reason, missing };
+  }
+}
+
+/**
+ * Thrown by `build()` when providers registered with `addProfiles()` have no variant
+ * for the selected profile and no `default` variant, or when the predicates of a key
+ * registered several times with `addIf()` accept none or several of them.
+ *
+ * @example
+ * ```typescript
+ * container().addProfiles('mailer', { production: () => new SmtpMailer() }).build({ profile: 'test' });
+ * // ProfileError: Profile 'test' leaves 'mailer' without an implementation.
+ * // hint: "Add a variant for it: .addProfiles('mailer', { test: (c) => ..., default: (c) => ... })"
+ * ```
+ */
+export class ProfileError extends ContainerError {
+  readonly hint: string;
+  readonly details: { profile: string | undefined; missing: string[]; ambiguous?: string[] };
+
+  constructor(profile: string | undefined, missing: string[], ambiguous: string[] = []) {
+    const list = (keys: string[]) => keys.map((k) => `'${k}'`).join(', ');
+    const selected = profile === undefined ? 'Building without a profile' : `Profile '${profile}'`;
+    const problems = [
+      ...(missing.length > 0 ? [`leaves ${list(missing)} without an implementation`] : []),
+      ...(ambiguous.length > 0 ? [`selects several implementations of ${list(ambiguous)}`] : []),
+    ];
+    super(`${selected} ${problems.join(' and ')}.`);
+    this.hint =
+      missing.length > 0
+        ? [
+            'To fix:',
+            `  1. Add a variant for ${missing.length === 1 ? 'it' : 'them'}: .addProfiles('${missing[0]}', { ${profile ?? 'production'}: (c) => ..., default: (c) => ... })`,
+            '  2. Or build with a profile every provider has a variant for: .build({ profile })',
+          ].join('\n')
+        : [
+            'To fix:',
+            `  1. Make the addIf() predicates of '${ambiguous[0]}' exclusive, so exactly one accepts each profile`,
+            `  2. Or register one variant per profile: .addProfiles('${ambiguous[0]}', { ... })`,
+          ].join('\n');
+    this.details = { profile, missing, ...(ambiguous.length > 0 && { ambiguous }) };
+  }
+}
+
+/**
+ * Thrown when the selector of a provider registered with `addSwitch()` names none of its branches.
+ *
+ * @example
+ * ```typescript
+ * container()
+ *   .add('config', () => ({ provider: 'adyen' }))
+ *   .addSwitch('payment', (c) => c.config.provider, { stripe: ..., paypal: ... })
+ *   .build().payment;
+ * // SwitchError: Switch 'payment' has no branch 'adyen'.
+ * // hint: "Valid branches: 'stripe', 'paypal'. Add an 'adyen' branch or fix the value the selector reads."
+ * ```
+ */
+export class SwitchError extends ContainerError {
+  readonly hint: string;
+  readonly details: { key: string; branch: string; branches: string[] };
+
+  constructor(key: string, branch: string, branches: string[]) {
+    super(`Switch '${key}' has no branch '${branch}'.`);
+    const valid = branches.map((b) => `'${b}'`).join(', ');
+    this.hint = `Valid branches: ${valid}. Add a '${branch}' branch or fix the value the selector reads.`;
+    this.details = { key, branch, branches };
+  }
+}
+
 /**
  * Warning emitted when a singleton depends on a transient dependency.
  * The transient value gets frozen inside the singleton — almost always a bug.
@@ -240,5 +554,57 @@ export class AsyncInitErrorWarning implements ContainerWarning {
   }
 }
 
+/**
+ * Warning emitted when a provider's factory reads different deps than it declared
+ * with `{ deps }` (or `addClass()`). The declared graph — used by `inspect()` and
+ * `build()`-time validation — is then out of date.
+ *
+ * @example
+ * ```typescript
+ * container().add('db', (c) => new Db(c.config, c.logger), { deps: ['config'] });
+ * // DepsMismatchWarning: 'db' declares deps [config] but read [config, logger].
+ * // hint: "Update the declaration: { deps: ['config', 'logger'] }"
+ * ```
+ */
+export class DepsMismatchWarning implements ContainerWarning {
+  readonly type = 'deps_mismatch' as const;
+  readonly message: string;
+  readonly hint: string;
+  readonly details: { key: string; declared: string[]; tracked: string[] };
+
+  constructor(key: string, declared: string[], tracked: string[]) {
+    this.message = `'${key}' declares deps [${declared.join(', ')}] but read [${tracked.join(', ')}].`;
+    this.hint = `Update the declaration: { deps: [${tracked.map((d) => `'${d}'`).join(', ')}] }`;
+    this.details = { key, declared, tracked };
+  }
+}
+
+/**
+ * Warning reported by a resolution interceptor through `ctx.warn()`.
+ *
+ * @example
+ * ```typescript
+ * container().use({
+ *   afterResolve(key, instance, ctx) {
+ *     if (ctx.chain.length > 8) ctx.warn(`'${key}' is ${ctx.chain.length} hops deep.`);
+ *   },
+ * });
+ * ```
+ */
+export class CustomWarning implements ContainerWarning {
+  readonly type = 'custom' as const;
+  readonly message: string;
+  readonly details: { key: string } & Record<string, unknown>;
+
+  constructor(key: string, message: string, details: Record<string, unknown> = {}) {
+    this.message = message;
+    this.details = { ...details, key };
+  }
+}
+
 /** Union of all warning types emitted by the container. */
-export type AnyWarning = ScopeMismatchWarning | AsyncInitErrorWarning;
+export type AnyWarning =
+  | ScopeMismatchWarning
+  | AsyncInitErrorWarning
+  | DepsMismatchWarning
+  | CustomWarning;
@@ -1,15 +1,64 @@
 import type { ContainerBuilder } from '../application/container-builder.js';
-import type { AnyWarning } from './errors.js';
+import type { AnyWarning, ContainerError } from './errors.js';
 
 /**
  * A factory function that receives the container and returns an instance.
+ * The optional second argument describes the resolution in progress.
  *
  * @example
  * ```typescript
  * const factory: Factory<MyService> = (c) => new MyService(c.db);
+ * const named: Factory<Logger> = (_c, ctx) => new Logger(ctx.chain.at(-1) ?? ctx.key);
  * ```
  */
-export type Factory<T = unknown> = (container: unknown) => T;
+export type Factory<T = unknown> = (container: unknown, ctx: ResolutionContext) => T;
+
+/**
+ * Second argument of every factory: which provider is being built, where, and why.
+ * Metadata fields are omitted when the provider has none, like in `ProviderInfo`.
+ */
+export interface ResolutionContext {
+  /** Key being built — the target for an alias, `namespace.key` for a namespaced provider. */
+  readonly key: string;
+  /** Name of the `scope()` building the provider. Omitted for the root container and unnamed scopes. */
+  readonly scopeName?: string;
+  /**
+   * Keys whose resolution led here, outermost first: `chain.at(-1)` is the provider that
+   * requested this one. Empty for a read from the container itself. Singletons are built
+   * once, so they only ever see the chain of their first resolution.
+   */
+  readonly chain: readonly string[];
+  /** Tags attached at registration. Empty when the provider has none. */
+  readonly tags: readonly string[];
+  /** Dependency keys declared at registration. */
+  readonly deps?: readonly string[];
+  /** Name of the `defineModule()` module that registered the provider. */
+  readonly module?: string;
+  /** Namespace the provider was registered under with `addModule(namespace, module)`. */
+  readonly namespace?: string;
+}
+
+/**
+ * Context handed to resolution interceptors: the provider's resolution context,
+ * plus `warn()` to report a `CustomWarning` for the key in `health().warnings`.
+ */
+export interface InterceptorContext extends ResolutionContext {
+  warn(message: string, details?: Record<string, unknown>): void;
+}
+
+/**
+ * Hooks registered with `use()`, run by the resolver around every instance it creates:
+ * once per singleton (or scoped instance), on every resolution of a transient.
+ * Cached instances are returned without running them.
+ */
+export interface ResolutionInterceptor {
+  /** Runs before the factory. Throwing fails the resolution. */
+  beforeResolve?(key: string, ctx: InterceptorContext): void;
+  /** Runs after the factory and decorators. A returned value replaces the instance. */
+  afterResolve?(key: string, instance: unknown, ctx: InterceptorContext): unknown;
+  /** Runs when the resolution fails, with the error about to be thrown. */
+  onError?(key: string, error: unknown, ctx: InterceptorContext): void;
+}
 
 /**
  * Reserved method names on the container that cannot be used as dependency keys.
@@ -20,16 +69,36 @@ export const RESERVED_KEYS = [
   'extend',
   'module',
   'preload',
+  'resolveAsync',
+  'ready',
+  'byTag',
   'reset',
   'inspect',
   'describe',
   'health',
+  'verify',
   'dispose',
   'toString',
+  '$',
 ] as const;
 
 export type ReservedKey = (typeof RESERVED_KEYS)[number];
 
+/**
+ * Where the built container exposes its methods:
+ * - `'container'` (default) — on the container itself: `app.inspect()`. Method names are reserved keys.
+ * - `'$'` — behind the `$` accessor: `app.$.inspect()`. Only `$` is reserved.
+ */
+export type MethodsMode = 'container' | '$';
+
+/** Reserved keys when container methods live behind `$` (`{ methods: '$' }`). */
+export const ACCESSOR_RESERVED_KEYS = ['$'] as const;
+
+/** Keys that cannot be used as dependency names in methods mode `M`. */
+export type ReservedKeysOf<M extends MethodsMode> = M extends '$'
+  ? (typeof ACCESSOR_RESERVED_KEYS)[number]
+  : ReservedKey;
+
 /**
  * Options for creating a scoped container.
  */
@@ -41,6 +110,82 @@ export interface ScopeOptions {
   name?: string;
 }
 
+/**
+ * Options for creating a container builder.
+ */
+export interface BuilderOptions {
+  /**
+   * Optional name for the builder — typically the bounded context it belongs to.
+   * Used to attribute conflicting keys when builders are merged.
+   */
+  name?: string;
+  /**
+   * Rejects registering a key twice with `DuplicateProviderError`, instead of
+   * silently replacing the first provider. Use `override()` to replace one on purpose.
+   */
+  strict?: boolean;
+  /**
+   * `'$'` moves every container method behind the `$` accessor (`app.$.health()`),
+   * so `scope`, `health`, `module`... become legal dependency keys. Default: `'container'`.
+   */
+  methods?: MethodsMode;
+}
+
+/**
+ * What `merge()` does when both builders register the same key.
+ * - `'error'` — throw `MergeConflictError` listing every conflicting key (default)
+ * - `'first-wins'` — keep the provider already registered
+ * - `'last-wins'` — replace it with the incoming provider
+ */
+export type ConflictPolicy = 'error' | 'first-wins' | 'last-wins';
+
+/**
+ * Options for `merge()` and `mergeBuilders()`.
+ */
+export interface MergeOptions<P extends ConflictPolicy = ConflictPolicy> {
+  /** Conflict policy for keys registered by both builders. Defaults to `'error'`. */
+  onConflict?: P;
+}
+
+/**
+ * Options accepted by the builder's registration methods.
+ * `K` is the set of keys `deps` may name — the keys registered so far.
+ *
+ * @example
+ * ```typescript
+ * container().add('pgHealth', (c) => new PgProbe(c.db), { tags: ['health', 'infra'] });
+ * ```
+ */
+export interface ProviderOptions<K extends string = string> {
+  /** Labels used to group providers — query them with `byTag()`. */
+  tags?: string[];
+  /**
+   * Keys the factory reads, declared up front. They seed the dependency graph before
+   * resolution, are validated at `build()` (missing keys, cycles), and are compared
+   * with the keys the factory actually reads (`deps_mismatch` warning).
+   */
+  deps?: K[];
+}
+
+/**
+ * Providers registered with a given tag, as returned by `byTag()`.
+ */
+// biome-ignore lint/suspicious/noExplicitAny: `any` allows interfaces without index signatures
+export interface TaggedProviders<T extends Record<string, any> = Record<string, unknown>> {
+  /** Keys registered with the tag, including those of parent scopes. */
+  keys: (keyof T & string)[];
+  /**
+   * Resolves every tagged provider, keyed by provider key. Async providers not awaited
+   * yet are left out — use `resolveAsync()` to include them.
+   * Scoped providers are left out at the root.
+   */
+  resolve(): Partial<T>;
+  /** Same as `resolve()`, but awaits the tagged async providers. */
+  resolveAsync(): Promise<Partial<T>>;
+  /** Same as `preload()` restricted to the tagged providers. No-op if none are tagged. */
+  preload(): Promise<void>;
+}
+
 /**
  * Full container type exposed to the user.
  * Combines resolved dependencies with container methods.
@@ -54,14 +199,71 @@ export interface ScopeOptions {
  * c.inspect(); // ContainerGraph
  * ```
  */
+export type Container<
+  // biome-ignore lint/suspicious/noExplicitAny: `any` allows interfaces without index signatures
+  T extends Record<string, any> = Record<string, unknown>,
+  M extends MethodsMode = 'container',
+> = M extends '$'
+  ? T & { readonly $: ContainerAccessor<T> & ContainerMethods<T> }
+  : T & IContainer<T>;
+
+/** Methods of a container built with `{ methods: '$' }`, reached through `container.$`. */
 // biome-ignore lint/suspicious/noExplicitAny: `any` allows interfaces without index signatures
-export type Container<T extends Record<string, any> = Record<string, unknown>> = T & IContainer<T>;
+export type ContainerMethods<T extends Record<string, any> = Record<string, unknown>> = Omit<
+  IContainer<T, '$'>,
+  '$'
+>;
 
 /**
- * Container methods interface. Defines the API available on every container.
+ * Explicit resolution API for keys chosen at runtime, exposed as `container.$`.
+ * Keys known to the container's type are typed; any other string resolves to `unknown`
+ * unless a type is passed explicitly.
+ *
+ * @example
+ * ```typescript
+ * for (const name of config.plugins) {
+ *   const plugin = app.$.tryGet<Plugin>(`plugin.${name}`);
+ *   if (plugin) plugin.start();
+ * }
+ * ```
  */
 // biome-ignore lint/suspicious/noExplicitAny: `any` allows interfaces without index signatures
-export interface IContainer<T extends Record<string, any> = Record<string, unknown>> {
+export interface ContainerAccessor<T extends Record<string, any> = Record<string, unknown>> {
+  /**
+   * Resolves `key` like property access. Throws `ProviderNotFoundError` (with a
+   * suggestion) when no provider exists for it in this container or its parents.
+   */
+  get<K extends string & keyof T>(key: K): T[K];
+  get<V = unknown>(key: string): V;
+  /**
+   * Resolves `key`, or returns `undefined` when no provider exists for it in this
+   * container or its parents. Errors thrown while resolving a registered key propagate.
+   */
+  tryGet<K extends string & keyof T>(key: K): T[K] | undefined;
+  tryGet<V = unknown>(key: string): V | undefined;
+  /** Whether a provider (or a namespace) exists for `key` in this container or its parents. */
+  has(key: string): boolean;
+}
+
+/**
+ * Container methods interface. Defines the API available on every container.
+ */
+export interface IContainer<
+  // biome-ignore lint/suspicious/noExplicitAny: `any` allows interfaces without index signatures
+  T extends Record<string, any> = Record<string, unknown>,
+  M extends MethodsMode = 'container',
+> {
+  /**
+   * Explicit `get` / `tryGet` / `has` for keys only known at runtime.
+   *
+   * @example
+   * ```typescript
+   * const name = process.env.STORAGE ?? 'memory';
+   * if (app.$.has(name)) app.$.get<Storage>(name).connect();
+   * ```
+   */
+  readonly $: ContainerAccessor<T>;
+
   /**
    * Creates a child container with additional dependencies.
    * Child inherits all parent singletons via a parent Resolver chain.
@@ -80,11 +282,12 @@ export interface IContainer<T extends Record<string, any> = Record<string, unkno
    * });
    * ```
    */
-  scope<E extends Record<string, (c: T) => unknown>>(
+  scope<E extends Record<string, (c: T, ctx: ResolutionContext) => unknown>>(
     extra: E,
     options?: ScopeOptions,
   ): Container<
-    Omit<T, keyof { [K in keyof E]: ReturnType<E[K]> }> & { [K in keyof E]: ReturnType<E[K]> }
+    Omit<T, keyof { [K in keyof E]: ReturnType<E[K]> }> & { [K in keyof E]: ReturnType<E[K]> },
+    M
   >;
 
   /**
@@ -103,10 +306,11 @@ export interface IContainer<T extends Record<string, any> = Record<string, unkno
    * });
    * ```
    */
-  extend<E extends Record<string, (c: T) => unknown>>(
+  extend<E extends Record<string, (c: T, ctx: ResolutionContext) => unknown>>(
     extra: E,
   ): Container<
-    Omit<T, keyof { [K in keyof E]: ReturnType<E[K]> }> & { [K in keyof E]: ReturnType<E[K]> }
+    Omit<T, keyof { [K in keyof E]: ReturnType<E[K]> }> & { [K in keyof E]: ReturnType<E[K]> },
+    M
   >;
 
   /**
@@ -127,9 +331,9 @@ export interface IContainer<T extends Record<string, any> = Record<string, unkno
   // biome-ignore lint/suspicious/noExplicitAny: `any` allows interfaces without index signatures
   module<TNew extends Record<string, any>>(
     fn: (
-      builder: ContainerBuilder<Record<string, unknown>, T>,
-    ) => ContainerBuilder<Record<string, unknown>, TNew>,
-  ): Container<TNew>;
+      builder: ContainerBuilder<Record<string, unknown>, T, M>,
+    ) => ContainerBuilder<Record<string, unknown>, TNew, MethodsMode>,
+  ): Container<TNew, M>;
 
   /**
    * Pre-resolves dependencies (warm-up) and awaits their `onInit` lifecycle hooks.
@@ -148,6 +352,53 @@ export interface IContainer<T extends Record<string, any> = Record<string, unkno
    */
   preload(...keys: (keyof T)[]): Promise<void>;
 
+  /**
+   * Looks up the providers registered with a tag, including those of parent scopes.
+   * Nothing is resolved until `resolve()` or `preload()` is called on the result.
+   *
+   * @param tag - The tag to look up
+   *
+   * @example
+   * ```typescript
+   * container.byTag('health').keys;       // ['pgHealth', 'diskHealth']
+   * container.byTag('health').resolve();  // { pgHealth: PgProbe, diskHealth: DiskProbe }
+   * await container.byTag('critical').preload();
+   * ```
+   */
+  byTag(tag: string): TaggedProviders<T>;
+
+  /**
+   * Resolves a dependency, awaiting async factories (`addAsync()`) along the way.
+   * The settled instance is cached, so later property access returns it synchronously.
+   * Concurrent calls for the same async provider share a single in-flight resolution.
+   *
+   * @param key - The dependency key to resolve
+   * @returns Promise of the settled instance
+   *
+   * @example
+   * ```typescript
+   * const db = await container.resolveAsync('db');
+   * container.db === db; // true
+   * ```
+   */
+  resolveAsync<K extends keyof T>(key: K): Promise<T[K]>;
+
+  /**
+   * Resolves a dependency like `resolveAsync()` and awaits its `onInit` hook.
+   * The hook runs once: concurrent callers share the in-flight init, later callers get
+   * the initialized instance, and a failed init rejects every caller until `reset(key)`.
+   *
+   * @param key - The dependency key to resolve
+   * @returns Promise of the initialized instance
+   *
+   * @example
+   * ```typescript
+   * // two concurrent requests — one connection, both wait for it
+   * const [a, b] = await Promise.all([container.ready('db'), container.ready('db')]);
+   * ```
+   */
+  ready<K extends keyof T>(key: K): Promise<T[K]>;
+
   /**
    * Returns the full dependency graph as a serializable JSON object.
    * Includes provider status, discovered dependencies, and resolution state.
@@ -185,6 +436,20 @@ export interface IContainer<T extends Record<string, any> = Record<string, unkno
    */
   health(): ContainerHealth;
 
+  /**
+   * Resolves every provider in a throwaway resolver and reports every failure
+   * instead of stopping at the first. Nothing is cached into this container and
+   * no `onInit()` runs — but factories do run, so keep them free of side effects.
+   * Async providers (and what depends on them) are listed as `skipped`.
+   *
+   * @example
+   * ```typescript
+   * const report = container.verify();
+   * expect(report.failures).toEqual([]);
+   * ```
+   */
+  verify(): VerificationReport;
+
   /**
    * Invalidates cached singletons, forcing re-creation on next access.
    * Does not affect parent containers in a scope chain.
@@ -221,6 +486,10 @@ export interface ContainerGraph {
   name?: string;
   /** Map of registered provider information. */
   providers: Record<string, ProviderInfo>;
+  /** Aliases registered with `alias()`, mapped to the key they point to. Omitted when there are none. */
+  aliases?: Record<string, string>;
+  /** Keys of the providers registered under each namespace by `addModule(namespace, module)`. Omitted when there are none. */
+  namespaces?: Record<string, string[]>;
 }
 
 /**
@@ -233,8 +502,73 @@ export interface ProviderInfo {
   resolved: boolean;
   /** List of dependency keys discovered during resolution of this provider. */
   deps: string[];
-  /** Lifecycle scope: singleton (cached) or transient (new instance every time). */
-  scope: 'singleton' | 'transient';
+  /** Keys read through `optional()`, registered or not. Omitted when there are none. */
+  optionalDeps?: string[];
+  /** Keys requested through `lazy()`; they do not order initialization. Omitted when there are none. */
+  lazyDeps?: string[];
+  /** Tags attached at registration. Omitted when the provider has none. */
+  tags?: string[];
+  /** `'factory'` for providers registered with `addFactory()`. Omitted for regular providers. */
+  kind?: 'factory';
+  /** Number of runtime parameters of a factory provider's function. Known once resolved. */
+  arity?: number;
+  /** Names of the decorators wrapping the provider, in application order. Omitted when undecorated. */
+  decorators?: string[];
+  /** `true` when the provider was replaced with `override()`. Omitted otherwise. */
+  overridden?: boolean;
+  /** Name of the `defineModule()` module that registered the provider. Omitted otherwise. */
+  module?: string;
+  /** Namespace the provider was registered under with `addModule(namespace, module)`. Omitted otherwise. */
+  namespace?: string;
+  /** Variant of an `addProfiles()` provider selected by `build({ profile })`. Omitted otherwise. */
+  profile?: string;
+  /** Key this alias points to; the other fields describe that target. Only set by `describe()` on an alias. */
+  aliasOf?: string;
+  /**
+   * Lifecycle scope: singleton (cached), transient (new instance every time),
+   * or scoped (cached once per `scope()` child).
+   */
+  scope: 'singleton' | 'transient' | 'scoped';
+}
+
+/**
+ * Result of `verify()`.
+ */
+export interface VerificationReport {
+  /** `true` when no provider failed. */
+  valid: boolean;
+  /** Keys whose provider was resolved, successfully or not. */
+  checked: string[];
+  /** Keys that could not be checked synchronously: async providers and their dependents. */
+  skipped: string[];
+  /** Every provider that failed, with the error it threw. */
+  failures: VerificationFailure[];
+}
+
+/**
+ * A provider that failed during `verify()`.
+ */
+export interface VerificationFailure {
+  /** The provider being verified. */
+  key: string;
+  /** What resolving it threw — `ProviderNotFoundError`, `CircularDependencyError`, `FactoryError`, ... */
+  error: ContainerError;
+}
+
+/**
+ * Options for `build()`.
+ */
+export interface BuildOptions {
+  /**
+   * Runs `verify()` on the built container and throws `ContainerVerificationError`
+   * listing every failure, if any.
+   */
+  validate?: boolean;
+  /**
+   * Selects the variant of each `addProfiles()` provider (falling back to its `default`
+   * variant) and the `addIf()` providers whose predicate accepts it.
+   */
+  profile?: string;
 }
 
 /**
@@ -259,8 +593,10 @@ export interface ContainerWarning {
    * Warning type:
    * - `scope_mismatch`: A singleton depends on a transient (value gets frozen inside the singleton).
    * - `async_init_error`: An async `onInit` hook failed during fire-and-forget lazy resolution.
+   * - `deps_mismatch`: A factory read different deps than it declared with `{ deps }`.
+   * - `custom`: Reported by a resolution interceptor with `ctx.warn()`.
    */
-  type: 'scope_mismatch' | 'async_init_error';
+  type: 'scope_mismatch' | 'async_init_error' | 'deps_mismatch' | 'custom';
   /** Human-readable warning message. */
   message: string;
   /** Structured context for the warning. */
@@ -271,10 +607,21 @@ export interface ContainerWarning {
  * Interface for config and runtime validation.
  */
 export interface IValidator {
-  validateConfig(config: Record<string, unknown>): void;
+  validateConfig(config: Record<string, unknown>, reserved?: readonly string[]): void;
   suggestKey(key: string, registered: string[]): string | undefined;
 }
 
+/**
+ * Dependencies a factory reaches without resolving them as required deps.
+ * Recorded apart from `deps`, in their own graphs.
+ */
+export interface DependencyEdges {
+  /** Keys read through `optional()`. */
+  optional: string[];
+  /** Keys requested through `lazy()` — not resolved while the factory runs. */
+  lazy: string[];
+}
+
 /**
  * Tracks which dependencies each factory accesses at resolution time.
  * Builds the dependency graph automatically via a tracking Proxy.
@@ -284,9 +631,14 @@ export interface IDependencyTracker {
     deps: string[],
     chain: string[],
     resolve: (key: string, chain: string[]) => unknown,
+    edges?: DependencyEdges,
+    has?: (key: string) => boolean,
+    keys?: () => string[],
   ): unknown;
   getDepGraph(): Map<string, string[]>;
-  recordDeps(key: string, deps: string[]): void;
+  getOptionalDepGraph(): Map<string, string[]>;
+  getLazyDepGraph(): Map<string, string[]>;
+  recordDeps(key: string, deps: string[], edges?: DependencyEdges): void;
   clearDepGraph(...keys: string[]): void;
   clearAllDepGraph(): void;
 }
@@ -295,9 +647,19 @@ export interface IDependencyTracker {
  * Detects circular dependencies during resolution.
  */
 export interface ICycleDetector {
-  enter(key: string): void;
-  leave(key: string): void;
-  isResolving(key: string): boolean;
+  enter(key: string, owner?: object): void;
+  leave(key: string, owner?: object): void;
+  isResolving(key: string, owner?: object): boolean;
+  /** Hops currently being resolved, outermost first. */
+  path(): ResolutionHop[];
+}
+
+/**
+ * A key being resolved, with the resolver (`owner`) resolving it.
+ */
+export interface ResolutionHop {
+  key: string;
+  owner?: object;
 }
 
 /**
@@ -306,19 +668,26 @@ export interface ICycleDetector {
  */
 export interface IResolver {
   resolve(key: string, chain?: string[]): unknown;
+  resolveAsync(key: string, chain?: string[]): Promise<unknown>;
+  ready(key: string): Promise<unknown>;
   isResolved(key: string): boolean;
   getFactories(): Map<string, Factory>;
+  getFactory(key: string): Factory | undefined;
   getCache(): Map<string, unknown>;
   getDepGraph(): Map<string, string[]>;
+  getOptionalDepGraph(): Map<string, string[]>;
+  getLazyDepGraph(): Map<string, string[]>;
   getResolvedKeys(): string[];
   getWarnings(): AnyWarning[];
   getAllRegisteredKeys(): string[];
   getName(): string | undefined;
+  isRoot(): boolean;
 
   // Lifecycle delegation
   setDeferOnInit(defer: boolean): void;
   callOnInit(key: string): Promise<void>;
   getInitCalled(): Set<string>;
+  getInits(): Map<string, Promise<void>>;
   clearInitState(...keys: string[]): void;
   clearAllInitState(): void;
   clearWarnings(): void;
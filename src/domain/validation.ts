@@ -1,6 +1,11 @@
-import { ContainerConfigError, ReservedKeyError } from './errors.js';
-import type { IValidator } from './types.js';
-import { RESERVED_KEYS } from './types.js';
+import { ContainerConfigError, ProviderNotFoundError, ReservedKeyError } from './errors.js';
+import type { IValidator, MethodsMode } from './types.js';
+import { ACCESSOR_RESERVED_KEYS, RESERVED_KEYS } from './types.js';
+
+/** Keys that cannot be dependency names when container methods live in `mode`. */
+export function reservedKeys(mode: MethodsMode = 'container'): readonly string[] {
+  return mode === '$' ? ACCESSOR_RESERVED_KEYS : RESERVED_KEYS;
+}
 
 /**
  * Validates container configuration and provides fuzzy key matching.
@@ -15,12 +20,13 @@ import { RESERVED_KEYS } from './types.js';
 export class Validator implements IValidator {
   /**
    * Validates that all values in the config are factory functions
-   * and that no reserved keys are used.
+   * and that no reserved keys are used — by default the container method names;
+   * pass `reservedKeys('$')` for a container built with `{ methods: '$' }`.
    */
-  validateConfig(config: Record<string, unknown>): void {
+  validateConfig(config: Record<string, unknown>, reserved = reservedKeys()): void {
     for (const [key, value] of Object.entries(config)) {
-      if ((RESERVED_KEYS as readonly string[]).includes(key)) {
-        throw new ReservedKeyError(key, RESERVED_KEYS);
+      if (reserved.includes(key)) {
+        throw new ReservedKeyError(key, reserved);
       }
       if (typeof value !== 'function') {
         throw new ContainerConfigError(key, typeof value);
@@ -31,32 +37,51 @@ export class Validator implements IValidator {
   /**
    * Finds the closest registered key to a missing key using Levenshtein distance.
    * Returns `undefined` if no close match is found (threshold: 3).
+   * A namespaced key (`billing.repo`) also matches on its last segment, so an
+   * unqualified `repo` suggests `billing.repo`.
    *
    * @example
    * ```typescript
    * validator.suggestKey('userRepo', ['userRepository', 'logger', 'db']);
    * // 'userRepository'
+   * validator.suggestKey('repo', ['billing.repo', 'db']);
+   * // 'billing.repo'
    * ```
    */
   suggestKey(key: string, registered: string[]): string | undefined {
     let bestMatch: string | undefined;
-    let bestDistance = Infinity;
+    let bestSimilarity = -Infinity;
 
     for (const candidate of registered) {
-      const distance = levenshtein(key, candidate);
-      if (distance < bestDistance) {
-        bestDistance = distance;
+      const local = candidate.slice(candidate.lastIndexOf('.') + 1);
+      const similarity = Math.max(similarityOf(key, candidate), similarityOf(key, local));
+      if (similarity > bestSimilarity) {
+        bestSimilarity = similarity;
         bestMatch = candidate;
       }
     }
 
-    if (!bestMatch) return undefined;
-    const maxLen = Math.max(key.length, bestMatch.length);
-    const similarity = 1 - bestDistance / maxLen;
-    return similarity >= 0.5 ? bestMatch : undefined;
+    return bestSimilarity >= 0.5 ? bestMatch : undefined;
   }
 }
 
+/**
+ * `ProviderNotFoundError` for a key that is not registered, suggesting the closest
+ * registered key. `chain` holds the keys that needed it, if any.
+ */
+export function providerNotFound(
+  key: string,
+  registered: string[],
+  chain: string[] = [],
+): ProviderNotFoundError {
+  return new ProviderNotFoundError(
+    key,
+    chain,
+    registered,
+    new Validator().suggestKey(key, registered),
+  );
+}
+
 /**
  * Detects duplicate keys across multiple modules (spread objects).
  * Returns an array of keys that appear in more than one source.
@@ -78,6 +103,11 @@ export function detectDuplicateKeys(...modules: Record<string, unknown>[]): stri
   return duplicates;
 }
 
+/** Similarity between two strings, from 0 (nothing shared) to 1 (equal). */
+function similarityOf(a: string, b: string): number {
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length, 1);
+}
+
 /**
  * Levenshtein distance between two strings.
  * Used for fuzzy key suggestion in error messages.
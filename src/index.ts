@@ -17,27 +17,60 @@
  * @packageDocumentation
  */
 
-export { ContainerBuilder, container } from './application/container-builder.js';
+export { ContainerBuilder, container, mergeBuilders } from './application/container-builder.js';
+export type { Module, ModuleBuilder } from './application/module.js';
+export { defineModule } from './application/module.js';
 export {
+  AliasError,
   AsyncInitErrorWarning,
+  AsyncProviderError,
   CircularDependencyError,
   ContainerConfigError,
   ContainerError,
+  ContainerVerificationError,
+  CustomWarning,
+  DepsMismatchWarning,
+  DuplicateProviderError,
   FactoryError,
+  MergeConflictError,
+  ModuleError,
+  ProfileError,
   ProviderNotFoundError,
   ReservedKeyError,
+  ScopedResolutionError,
   ScopeMismatchWarning,
+  SwitchError,
   UndefinedReturnError,
 } from './domain/errors.js';
 export type { OnDestroy, OnInit } from './domain/lifecycle.js';
 export type {
+  BuilderOptions,
+  BuildOptions,
+  ConflictPolicy,
   Container,
+  ContainerAccessor,
   ContainerGraph,
   ContainerHealth,
+  ContainerMethods,
   ContainerWarning,
   IContainer,
+  InterceptorContext,
+  MergeOptions,
+  MethodsMode,
   ProviderInfo,
+  ProviderOptions,
+  ResolutionContext,
+  ResolutionInterceptor,
   ScopeOptions,
+  TaggedProviders,
+  VerificationFailure,
+  VerificationReport,
 } from './domain/types.js';
 export { detectDuplicateKeys } from './domain/validation.js';
+export { asyncFactory } from './infrastructure/async-factory.js';
+export { decorator } from './infrastructure/decorator.js';
+export { lazy } from './infrastructure/lazy.js';
+export { multi } from './infrastructure/multi-binding.js';
+export { optional } from './infrastructure/optional.js';
+export { scoped } from './infrastructure/scoped.js';
 export { transient } from './infrastructure/transient.js';
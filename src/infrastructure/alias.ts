@@ -0,0 +1,66 @@
+import { AliasError } from '../domain/errors.js';
+import type { Factory } from '../domain/types.js';
+import { Validator } from '../domain/validation.js';
+
+/**
+ * Symbol used to mark a factory as an alias.
+ * The marker holds the key the alias points to.
+ */
+export const ALIAS_MARKER = Symbol.for('inwire:alias');
+
+/**
+ * A factory standing for another key. The resolver resolves the target instead,
+ * so both keys share one cached instance.
+ */
+export interface AliasFactory {
+  (container: unknown): unknown;
+  [ALIAS_MARKER]: string;
+}
+
+/** Creates an alias pointing to `target`. The builder entry point is `alias()`. */
+export function aliasOf(target: string): Factory {
+  const wrapper = ((container: Record<string, unknown>) => container[target]) as AliasFactory;
+  wrapper[ALIAS_MARKER] = target;
+  return wrapper as Factory;
+}
+
+/** Checks if a factory is an alias. */
+export function isAlias(factory: unknown): factory is AliasFactory {
+  return (
+    typeof factory === 'function' &&
+    ALIAS_MARKER in factory &&
+    typeof (factory as Record<symbol, unknown>)[ALIAS_MARKER] === 'string'
+  );
+}
+
+/**
+ * Checks that every alias in `factories` ends on a registered provider.
+ * `lookup` finds a factory by key, including inherited ones.
+ *
+ * @throws AliasError if a target is missing or aliases form a loop.
+ */
+export function validateAliases(
+  factories: Map<string, Factory>,
+  lookup: (key: string) => Factory | undefined,
+  registered: string[],
+): void {
+  for (const [key, factory] of factories) {
+    if (!isAlias(factory)) continue;
+    const path = [key];
+    let current: Factory | undefined = factory;
+    while (isAlias(current)) {
+      const target: string = current[ALIAS_MARKER];
+      if (path.includes(target)) {
+        throw new AliasError(key, 'loop', [...path, target]);
+      }
+      path.push(target);
+      current = lookup(target);
+    }
+    if (!current) {
+      const providers = registered.filter((k) => !isAlias(lookup(k)));
+      const missing = path[path.length - 1];
+      const suggestion = new Validator().suggestKey(missing, providers);
+      throw new AliasError(key, 'missing_target', path, suggestion);
+    }
+  }
+}
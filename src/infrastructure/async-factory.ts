@@ -0,0 +1,51 @@
+import type { Factory, ResolutionContext } from '../domain/types.js';
+
+/**
+ * Symbol used to mark a factory as async.
+ * Async factories return a Promise; the settled value is what gets cached.
+ */
+export const ASYNC_MARKER = Symbol.for('inwire:async');
+
+/**
+ * A factory wrapper that marks it as async.
+ */
+export interface AsyncFactory<T = unknown> {
+  (container: unknown): Promise<T>;
+  [ASYNC_MARKER]: true;
+}
+
+/**
+ * Wraps a Promise-returning factory so the container awaits it and caches the
+ * settled instance instead of the Promise. Use it in `scope()`/`extend()` records;
+ * the builder equivalent is `addAsync()`.
+ *
+ * The returned factory is typed by its settled value, because that is what
+ * consumers see once the provider has been resolved with `resolveAsync()` or `preload()`.
+ *
+ * @example
+ * ```typescript
+ * import { asyncFactory } from 'inwire';
+ *
+ * const extended = app.extend({
+ *   broker: asyncFactory(async (c) => Broker.connect(c.config.brokerUrl)),
+ * });
+ *
+ * await extended.resolveAsync('broker');
+ * extended.broker; // Broker (settled)
+ * ```
+ */
+export function asyncFactory<T>(factory: Factory<Promise<T>>): Factory<T> {
+  const wrapper = ((container: unknown, ctx: ResolutionContext) =>
+    factory(container, ctx)) as AsyncFactory<T>;
+  wrapper[ASYNC_MARKER] = true;
+  return wrapper as unknown as Factory<T>;
+}
+
+/** Checks if a factory is marked as async. */
+export function isAsyncFactory(factory: unknown): factory is AsyncFactory {
+  return (
+    typeof factory === 'function' &&
+    ASYNC_MARKER in factory &&
+    (factory as Record<symbol, unknown>)[ASYNC_MARKER] === true
+  );
+}
@@ -1,21 +1,33 @@
-import type { ICycleDetector } from '../domain/types.js';
+import type { ICycleDetector, ResolutionHop } from '../domain/types.js';
 
 /**
  * Tracks which keys are currently being resolved to detect circular dependencies.
- * Uses a Set<string> internally — enter/leave must be balanced (use try/finally).
+ * One detector is shared by a resolver and its `scope()` children: each hop records the
+ * resolver (`owner`) that entered it, so the same key resolved by a parent and by a child
+ * is not a cycle, while the full path across scopes is known when one is found.
+ * enter/leave must be balanced (use try/finally).
  */
 export class CycleDetector implements ICycleDetector {
-  private readonly resolving = new Set<string>();
+  private readonly hops: ResolutionHop[] = [];
 
-  enter(key: string): void {
-    this.resolving.add(key);
+  enter(key: string, owner?: object): void {
+    this.hops.push({ key, owner });
   }
 
-  leave(key: string): void {
-    this.resolving.delete(key);
+  leave(key: string, owner?: object): void {
+    for (let i = this.hops.length - 1; i >= 0; i--) {
+      if (this.hops[i].key === key && this.hops[i].owner === owner) {
+        this.hops.splice(i, 1);
+        return;
+      }
+    }
   }
 
-  isResolving(key: string): boolean {
-    return this.resolving.has(key);
+  isResolving(key: string, owner?: object): boolean {
+    return this.hops.some((hop) => hop.key === key && hop.owner === owner);
+  }
+
+  path(): ResolutionHop[] {
+    return this.hops.map((hop) => ({ ...hop }));
   }
 }
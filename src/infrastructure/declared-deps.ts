@@ -0,0 +1,55 @@
+import { CircularDependencyError } from '../domain/errors.js';
+import type { Factory } from '../domain/types.js';
+import { providerNotFound } from '../domain/validation.js';
+import { ALIAS_MARKER, isAlias } from './alias.js';
+import { getMeta } from './provider-meta.js';
+
+/** Deps declared at registration (`{ deps }`, `addClass()`), or `undefined` if none were. */
+export function declaredDeps(factory: unknown): string[] | undefined {
+  return getMeta(factory).deps;
+}
+
+/** Whether two dependency lists name the same keys, in any order. */
+export function sameKeys(a: string[], b: string[]): boolean {
+  const set = new Set(a);
+  return set.size === new Set(b).size && b.every((key) => set.has(key));
+}
+
+/**
+ * Checks the graph declared at registration without running any factory: every
+ * declared dep must be registered, and declared edges must not form a cycle.
+ * An alias counts as an edge to its target. `lookup` finds a factory by key,
+ * including inherited ones.
+ *
+ * @throws ProviderNotFoundError if a declared dep is not registered.
+ * @throws CircularDependencyError if declared edges form a cycle.
+ */
+export function validateDeclaredDeps(
+  factories: Map<string, Factory>,
+  lookup: (key: string) => Factory | undefined,
+  registered: string[],
+): void {
+  const edges = (key: string): string[] => {
+    const factory = lookup(key);
+    if (isAlias(factory)) return [factory[ALIAS_MARKER]];
+    return declaredDeps(factory) ?? [];
+  };
+
+  for (const [key, factory] of factories) {
+    for (const dep of declaredDeps(factory) ?? []) {
+      if (lookup(dep) === undefined) {
+        throw providerNotFound(dep, registered, [key]);
+      }
+    }
+  }
+
+  const done = new Set<string>();
+  const visit = (key: string, chain: string[]): void => {
+    const start = chain.indexOf(key);
+    if (start !== -1) throw new CircularDependencyError(key, chain.slice(start));
+    if (done.has(key)) return;
+    for (const dep of edges(key)) visit(dep, [...chain, key]);
+    done.add(key);
+  };
+  for (const key of factories.keys()) visit(key, []);
+}
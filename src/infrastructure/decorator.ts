@@ -0,0 +1,92 @@
+import type { Factory } from '../domain/types.js';
+import { getMeta, withMeta } from './provider-meta.js';
+
+/**
+ * Symbol used to mark a factory as a pending decorator — a decoration whose target
+ * provider is registered elsewhere (builder, parent container) and not known yet.
+ */
+export const DECORATOR_MARKER = Symbol.for('inwire:decorator');
+
+/** Symbol under which a factory made by `forwardTo()` keeps the factory it stands for. */
+const FORWARDED_MARKER = Symbol.for('inwire:forwarded');
+
+/**
+ * Wraps the instance of an existing provider. Receives the inner instance and the container.
+ */
+export type Decorator<T = unknown, C = unknown> = (inner: T, container: C) => T;
+
+/**
+ * Decorates an existing provider from a `scope()`/`extend()` record. The key must
+ * already be registered; its instance is passed to `fn` as `inner`, and decorators
+ * stack in registration order. The builder equivalent is `decorate()`, which is also
+ * available in `module()` with a fully typed `inner`.
+ *
+ * @example
+ * ```typescript
+ * import { decorator } from 'inwire';
+ *
+ * const request = app.scope({
+ *   userRepo: decorator((inner: UserRepo, c) => new AuditedUserRepo(inner, c.currentUser)),
+ * });
+ * ```
+ */
+export function decorator<T, C = unknown>(fn: Decorator<T, C>): (container: C) => T {
+  const pending = (() => {
+    throw new Error('decorator() was not applied to a registered provider');
+  }) as Factory<T>;
+  (pending as unknown as Record<symbol, boolean>)[DECORATOR_MARKER] = true;
+  return withMeta(pending, { decorators: [fn as Decorator] }) as (container: C) => T;
+}
+
+/** Checks if a factory is a pending decorator. */
+export function isPendingDecorator(factory: unknown): boolean {
+  return (
+    typeof factory === 'function' &&
+    DECORATOR_MARKER in factory &&
+    (factory as Record<symbol, unknown>)[DECORATOR_MARKER] === true
+  );
+}
+
+/**
+ * Returns `target` with the decorators of the pending decorator `pending` stacked on top.
+ * If `target` is itself pending, the result stays pending.
+ */
+export function stackDecorators(target: Factory, pending: Factory): Factory {
+  return withMeta(target, {
+    decorators: [...(getMeta(target).decorators ?? []), ...(getMeta(pending).decorators ?? [])],
+  });
+}
+
+/**
+ * Returns a factory producing the already-decorated instance of `source` through
+ * `resolve`. It keeps `source`'s metadata but marks its decorators as applied,
+ * so only decorators stacked afterwards run.
+ */
+export function forwardTo(source: Factory, resolve: Factory): Factory {
+  const meta = getMeta(source);
+  const forwarder = withMeta(resolve, { ...meta, appliedDecorators: meta.decorators?.length ?? 0 });
+  (forwarder as unknown as Record<symbol, Factory>)[FORWARDED_MARKER] = source;
+  return forwarder;
+}
+
+/**
+ * Factory building what a `forwardTo()` factory forwards to by itself: its source, with
+ * every decorator stacked since. Other factories are returned unchanged.
+ */
+export function unforwarded(factory: Factory): Factory {
+  const source = (factory as unknown as Record<symbol, Factory | undefined>)[FORWARDED_MARKER];
+  if (!source) return factory;
+  const own = unforwarded(source);
+  return withMeta(own, {
+    ...getMeta(factory),
+    appliedDecorators: getMeta(own).appliedDecorators ?? 0,
+  });
+}
+
+/** Runs the decorators of `factory` that have not been applied yet over `instance`. */
+export function applyDecorators(factory: Factory, instance: unknown, container: unknown): unknown {
+  const { decorators = [], appliedDecorators = 0 } = getMeta(factory);
+  return decorators
+    .slice(appliedDecorators)
+    .reduce((inner, decorate) => decorate(inner, container), instance);
+}
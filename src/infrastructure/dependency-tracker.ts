@@ -1,4 +1,7 @@
-import type { IDependencyTracker } from '../domain/types.js';
+import type { DependencyEdges, IDependencyTracker } from '../domain/types.js';
+import { LAZY_ACCESS } from './lazy.js';
+import { isNamespace, namespaceView } from './namespace.js';
+import { OPTIONAL_ACCESS } from './optional.js';
 
 /**
  * Tracks dependencies accessed by each factory via a Proxy.
@@ -6,24 +9,52 @@ import type { IDependencyTracker } from '../domain/types.js';
  */
 export class DependencyTracker implements IDependencyTracker {
   private readonly depGraph = new Map<string, string[]>();
+  private readonly optionalDepGraph = new Map<string, string[]>();
+  private readonly lazyDepGraph = new Map<string, string[]>();
 
   /**
    * Creates a Proxy that records every property access into `deps`
    * and delegates resolution to the provided `resolve` callback.
+   * Each key is recorded once per kind of edge; accesses made after the factory returned (e.g. from
+   * a function it produced) keep landing in the same `deps` array.
+   * - `optional()` reads go to `edges.optional`, and resolve to `undefined` when `has(key)` is false.
+   * - `lazy()` requests go to `edges.lazy`, and return a thunk that resolves on call.
+   * - Reading a namespace that is not itself a key (`c.billing`, with `billing.repo` among
+   *   `keys()`) returns a view whose reads are tracked as the qualified keys.
    */
   createTrackingProxy(
     deps: string[],
     chain: string[],
     resolve: (key: string, chain: string[]) => unknown,
+    edges: DependencyEdges = { optional: [], lazy: [] },
+    has: (key: string) => boolean = () => true,
+    keys: () => string[] = () => [],
   ): unknown {
+    const access = (depKey: string): unknown => {
+      if (!has(depKey) && isNamespace(depKey, keys())) {
+        return namespaceView(depKey, access, keys);
+      }
+      if (!deps.includes(depKey)) deps.push(depKey);
+      return resolve(depKey, chain);
+    };
     return new Proxy(
       {},
       {
         get: (_target, prop) => {
+          if (prop === OPTIONAL_ACCESS) {
+            return (depKey: string) => {
+              if (!edges.optional.includes(depKey)) edges.optional.push(depKey);
+              return has(depKey) ? resolve(depKey, chain) : undefined;
+            };
+          }
+          if (prop === LAZY_ACCESS) {
+            return (depKey: string) => {
+              if (!edges.lazy.includes(depKey)) edges.lazy.push(depKey);
+              return () => resolve(depKey, chain);
+            };
+          }
           if (typeof prop === 'symbol') return undefined;
-          const depKey = prop as string;
-          deps.push(depKey);
-          return resolve(depKey, chain);
+          return access(prop);
         },
       },
     );
@@ -33,15 +64,40 @@ export class DependencyTracker implements IDependencyTracker {
     return new Map(this.depGraph);
   }
 
-  recordDeps(key: string, deps: string[]): void {
+  getOptionalDepGraph(): Map<string, string[]> {
+    return new Map(this.optionalDepGraph);
+  }
+
+  getLazyDepGraph(): Map<string, string[]> {
+    return new Map(this.lazyDepGraph);
+  }
+
+  /**
+   * Records the arrays themselves, like `deps`: reads made later by a function the
+   * factory produced keep showing up. Empty edge lists are kept and read as none.
+   */
+  recordDeps(key: string, deps: string[], edges?: DependencyEdges): void {
     this.depGraph.set(key, deps);
+    if (edges) {
+      this.optionalDepGraph.set(key, edges.optional);
+      this.lazyDepGraph.set(key, edges.lazy);
+    } else {
+      this.optionalDepGraph.delete(key);
+      this.lazyDepGraph.delete(key);
+    }
   }
 
   clearDepGraph(...keys: string[]): void {
-    for (const key of keys) this.depGraph.delete(key);
+    for (const key of keys) {
+      this.depGraph.delete(key);
+      this.optionalDepGraph.delete(key);
+      this.lazyDepGraph.delete(key);
+    }
   }
 
   clearAllDepGraph(): void {
     this.depGraph.clear();
+    this.optionalDepGraph.clear();
+    this.lazyDepGraph.clear();
   }
 }
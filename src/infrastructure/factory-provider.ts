@@ -0,0 +1,35 @@
+import type { Factory, ResolutionContext } from '../domain/types.js';
+
+/**
+ * Symbol used to mark a factory provider — a provider whose instance is a function
+ * taking runtime arguments (assisted injection).
+ */
+export const FACTORY_MARKER = Symbol.for('inwire:factory');
+
+/**
+ * A factory marked as producing a parameterized function.
+ */
+export interface FactoryProvider<T = unknown> {
+  (container: unknown): T;
+  [FACTORY_MARKER]: true;
+}
+
+/**
+ * Marks a factory as producing a function called with runtime arguments.
+ * The builder entry point is `addFactory()`.
+ */
+export function factoryProvider<T>(factory: Factory<T>): Factory<T> {
+  const wrapper = ((container: unknown, ctx: ResolutionContext) =>
+    factory(container, ctx)) as FactoryProvider<T>;
+  wrapper[FACTORY_MARKER] = true;
+  return wrapper;
+}
+
+/** Checks if a factory is marked as a factory provider. */
+export function isFactoryProvider(factory: unknown): factory is FactoryProvider {
+  return (
+    typeof factory === 'function' &&
+    FACTORY_MARKER in factory &&
+    (factory as Record<symbol, unknown>)[FACTORY_MARKER] === true
+  );
+}
@@ -0,0 +1,37 @@
+/**
+ * Symbol under which the tracking proxy exposes lazy access.
+ * Reading it returns a `(key) => () => value` accessor bound to the current resolution.
+ */
+export const LAZY_ACCESS = Symbol.for('inwire:lazy');
+
+/**
+ * Returns a thunk that resolves `key` when called, instead of resolving it now.
+ * Use it to break a legitimate cycle (event bus ↔ subscribers): the factory
+ * completes without touching `key`, and the thunk is called once both exist.
+ * Calling the thunk while `key` is still being constructed — i.e. inside the cycle
+ * itself — throws `CircularDependencyError` as usual.
+ *
+ * Inside a factory, the request is recorded as a lazy edge (`lazyDeps` in `inspect()`),
+ * which `preload()` does not treat as an ordering constraint. Keys unknown to `c`'s
+ * type — typically the other side of the cycle, registered later — need an explicit
+ * type: `lazy<UserService>(c, 'userService')`.
+ *
+ * @example
+ * ```typescript
+ * import { lazy } from 'inwire';
+ *
+ * container()
+ *   .add('eventBus', (c) => new EventBus(lazy<UserService>(c, 'userService')))
+ *   .add('userService', (c) => new UserService(c.eventBus))
+ * ```
+ */
+export function lazy<C extends object, K extends string & keyof C>(
+  container: C,
+  key: K,
+): () => C[K];
+export function lazy<T = unknown>(container: object, key: string): () => T;
+export function lazy(container: object, key: string): () => unknown {
+  const access = (container as Record<symbol, unknown>)[LAZY_ACCESS];
+  if (typeof access === 'function') return access(key);
+  return () => (container as Record<string, unknown>)[key];
+}
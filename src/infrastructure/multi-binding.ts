@@ -0,0 +1,92 @@
+import type { Factory, ResolutionContext } from '../domain/types.js';
+
+/**
+ * Symbol used to mark a factory as a multi-binding.
+ * The marker holds the list of contributions, in registration order.
+ */
+export const MULTI_MARKER = Symbol.for('inwire:multi');
+
+/**
+ * A factory that collects several contributions into an array.
+ */
+export interface MultiFactory<T = unknown> {
+  (container: unknown): T[];
+  [MULTI_MARKER]: Factory<T>[];
+}
+
+/**
+ * Groups several factories under one key. The key resolves to an array with one
+ * instance per contribution, in registration order. Use it in `scope()`/`extend()`
+ * records — contributions are appended to an existing multi-binding with the same key
+ * instead of replacing it. `c` is typed from the surrounding record.
+ * The builder equivalent is `addToSet()`.
+ *
+ * @example
+ * ```typescript
+ * import { multi } from 'inwire';
+ *
+ * const extended = app.extend({
+ *   healthProbes: multi((c) => new DbProbe(c.db), (c) => new CacheProbe(c.cache)),
+ * });
+ *
+ * extended.healthProbes; // [DbProbe, CacheProbe] (plus any probes already in app)
+ * ```
+ */
+export function multi<T, C = unknown>(
+  ...contributions: ((container: C, ctx: ResolutionContext) => T)[]
+): (container: C, ctx: ResolutionContext) => T[] {
+  const wrapper = ((container: C, ctx: ResolutionContext) =>
+    contributions.map((factory) => factory(container, ctx))) as unknown as MultiFactory<T>;
+  wrapper[MULTI_MARKER] = contributions as Factory<T>[];
+  return wrapper as (container: C, ctx: ResolutionContext) => T[];
+}
+
+/** Checks if a factory is a multi-binding. */
+export function isMulti(factory: unknown): factory is MultiFactory {
+  return (
+    typeof factory === 'function' &&
+    MULTI_MARKER in factory &&
+    Array.isArray((factory as Record<symbol, unknown>)[MULTI_MARKER])
+  );
+}
+
+/** Key under which the contribution at `index` of a multi-binding is registered. */
+export function contributionKey(key: string, index: number): string {
+  return `${key}[${index}]`;
+}
+
+/**
+ * Returns a multi-binding holding the contributions of `base` followed by those of `added`.
+ * Metadata of `base` (tags, decorators) carries over to the result.
+ */
+export function appendContributions(base: MultiFactory, added: MultiFactory): MultiFactory {
+  const merged = multi(...base[MULTI_MARKER], ...added[MULTI_MARKER]) as MultiFactory;
+  return Object.assign(merged, base, { [MULTI_MARKER]: merged[MULTI_MARKER] });
+}
+
+/**
+ * Expands multi-bindings in place: each contribution becomes its own provider under
+ * `key[i]`, and `key` becomes a collector that resolves every contribution through
+ * the container — so each one is cached and tracked like any other provider.
+ * The collector keeps the binding's metadata, so decorators wrap the whole array.
+ *
+ * `inherited(key)` is the number of leading contributions already registered by a
+ * parent resolver; those are left to the parent so their instances stay shared.
+ */
+export function expandMultiBindings(
+  factories: Map<string, Factory>,
+  inherited: (key: string) => number = () => 0,
+): Map<string, Factory> {
+  for (const [key, factory] of [...factories]) {
+    if (!isMulti(factory)) continue;
+    const contributions = factory[MULTI_MARKER];
+    for (let i = inherited(key); i < contributions.length; i++) {
+      factories.set(contributionKey(key, i), contributions[i]);
+    }
+    const collector = ((container: Record<string, unknown>) =>
+      contributions.map((_, i) => container[contributionKey(key, i)])) as MultiFactory;
+    Object.assign(collector, factory);
+    factories.set(key, collector as Factory);
+  }
+  return factories;
+}
@@ -0,0 +1,146 @@
+import type { Factory, ResolutionContext } from '../domain/types.js';
+import { ALIAS_MARKER, aliasOf, isAlias } from './alias.js';
+import type { Decorator } from './decorator.js';
+import { LAZY_ACCESS } from './lazy.js';
+import { isMulti, MULTI_MARKER, multi } from './multi-binding.js';
+import { OPTIONAL_ACCESS } from './optional.js';
+import {
+  CANDIDATES_MARKER,
+  type ConditionalFactory,
+  candidates,
+  isCandidates,
+  isProfiled,
+  PROFILES_MARKER,
+  profiles,
+} from './profiles.js';
+import { getMeta, withMeta } from './provider-meta.js';
+
+/** Flat key of `key` inside `namespace`: `qualify('billing', 'repo')` is `'billing.repo'`. */
+export function qualify(namespace: string, key: string): string {
+  return `${namespace}.${key}`;
+}
+
+/** Whether any of `keys` is registered inside `namespace`. */
+export function isNamespace(namespace: string, keys: Iterable<string>): boolean {
+  const prefix = `${namespace}.`;
+  for (const key of keys) {
+    if (key.startsWith(prefix)) return true;
+  }
+  return false;
+}
+
+/**
+ * Object standing for a namespace: reading `view.repo` reads `namespace.repo` through
+ * `access`, which handles nested namespaces and missing keys like a top-level read.
+ * `keys` lists every registered key, for `in` and `Object.keys()`.
+ */
+export function namespaceView(
+  namespace: string,
+  access: (key: string) => unknown,
+  keys: () => string[],
+): Record<string, unknown> {
+  const prefix = `${namespace}.`;
+  const members = (): string[] => [
+    ...new Set(
+      keys()
+        .filter((key) => key.startsWith(prefix))
+        .map((key) => key.slice(prefix.length).split('.')[0]),
+    ),
+  ];
+  return new Proxy(
+    {},
+    {
+      get(_target, prop) {
+        if (typeof prop === 'symbol') return undefined;
+        return access(qualify(namespace, prop));
+      },
+      has(_target, prop) {
+        return typeof prop === 'string' && members().includes(prop);
+      },
+      ownKeys() {
+        return members();
+      },
+      getOwnPropertyDescriptor(_target, prop) {
+        if (typeof prop !== 'string' || !members().includes(prop)) return undefined;
+        return { configurable: true, enumerable: true, writable: false };
+      },
+    },
+  );
+}
+
+/**
+ * Rebinds a factory registered by a namespaced module: `c.repo` in the factory reads
+ * the sibling `namespace.repo` when the module registered `repo`, and the host's `repo`
+ * otherwise. Aliases to siblings and declared deps are qualified the same way, and the
+ * provider's `namespace` metadata records where it lives (nested namespaces are joined).
+ * Multi-binding contributions, `addProfiles()` variants, `addIf()` candidates and decorators — including
+ * those the module left on host keys — are rebound one by one.
+ */
+export function inNamespace(
+  factory: Factory,
+  namespace: string,
+  siblings: ReadonlySet<string>,
+): Factory {
+  const isSibling = (key: string): boolean => siblings.has(key) || isNamespace(key, siblings);
+  const local = (key: string): string => (isSibling(key) ? qualify(namespace, key) : key);
+
+  if (isAlias(factory)) return aliasOf(local(factory[ALIAS_MARKER]));
+
+  let rebound: Factory;
+  if (isProfiled(factory)) {
+    const variants = Object.fromEntries(
+      Object.entries(factory[PROFILES_MARKER]).map(([profile, variant]) => [
+        profile,
+        inNamespace(variant, namespace, siblings),
+      ]),
+    );
+    rebound = Object.assign(profiles(variants), factory, { [PROFILES_MARKER]: variants });
+  } else if (isCandidates(factory)) {
+    const rebinds = factory[CANDIDATES_MARKER].map(
+      (c) => inNamespace(c, namespace, siblings) as ConditionalFactory,
+    );
+    rebound = Object.assign(candidates(rebinds), factory, { [CANDIDATES_MARKER]: rebinds });
+  } else if (isMulti(factory)) {
+    const contributions = factory[MULTI_MARKER].map((c) => inNamespace(c, namespace, siblings));
+    const collected = multi(...contributions) as typeof factory;
+    rebound = Object.assign(collected, factory, { [MULTI_MARKER]: collected[MULTI_MARKER] });
+  } else {
+    rebound = ((container: unknown, ctx: ResolutionContext) =>
+      factory(siblingView(container, local), ctx)) as Factory;
+    Object.assign(rebound, factory);
+  }
+
+  const { deps, decorators, namespace: inner } = getMeta(factory);
+  return withMeta(rebound, {
+    namespace: inner ? qualify(namespace, inner) : namespace,
+    ...(deps && { deps: deps.map(local) }),
+    ...(decorators && { decorators: decorators.map((d) => decoratorInNamespace(d, local)) }),
+  });
+}
+
+/** `decorate` reading its container through `local`, keeping its name for `describe()`. */
+function decoratorInNamespace(decorate: Decorator, local: (key: string) => string): Decorator {
+  const rebound: Decorator = (inner, container) => decorate(inner, siblingView(container, local));
+  return Object.defineProperty(rebound, 'name', { value: decorate.name });
+}
+
+/** View of `container` where each key read goes through `local` first. */
+function siblingView(container: unknown, local: (key: string) => string): unknown {
+  const target = container as Record<string | symbol, unknown>;
+  return new Proxy(
+    {},
+    {
+      get(_target, prop) {
+        if (prop === OPTIONAL_ACCESS || prop === LAZY_ACCESS) {
+          const access = target[prop];
+          return typeof access === 'function' ? (key: string) => access(local(key)) : access;
+        }
+        if (typeof prop === 'symbol') return target[prop];
+        return target[local(prop)];
+      },
+      has(_target, prop) {
+        return typeof prop === 'string' ? local(prop) in target : prop in target;
+      },
+    },
+  );
+}
@@ -0,0 +1,33 @@
+/**
+ * Symbol under which the tracking proxy exposes optional access.
+ * Reading it returns a `(key) => value | undefined` accessor bound to the current resolution.
+ */
+export const OPTIONAL_ACCESS = Symbol.for('inwire:optional');
+
+/**
+ * Reads a dependency that may not be registered. Returns `undefined` when no provider
+ * exists for `key` anywhere in the parent chain; otherwise resolves it like `c[key]`.
+ * Inside a factory, the access is recorded as an optional edge of the dependency graph
+ * (`optionalDeps` in `inspect()`).
+ *
+ * Keys unknown to `c`'s type are typed `unknown`; pass the type explicitly instead:
+ * `optional<Metrics>(c, 'metrics')`.
+ *
+ * @example
+ * ```typescript
+ * import { optional } from 'inwire';
+ *
+ * container()
+ *   .add('userService', (c) => new UserService(c.db, optional<Metrics>(c, 'metrics')))
+ * ```
+ */
+export function optional<C extends object, K extends string & keyof C>(
+  container: C,
+  key: K,
+): C[K] | undefined;
+export function optional<T = unknown>(container: object, key: string): T | undefined;
+export function optional(container: object, key: string): unknown {
+  const access = (container as Record<symbol, unknown>)[OPTIONAL_ACCESS];
+  if (typeof access === 'function') return access(key);
+  return key in container ? (container as Record<string, unknown>)[key] : undefined;
+}
@@ -0,0 +1,161 @@
+import { ProfileError } from '../domain/errors.js';
+import type { Factory } from '../domain/types.js';
+import { getMeta, withMeta } from './provider-meta.js';
+
+/**
+ * Symbol under which a profile-dependent provider stores its variants, by profile name.
+ */
+export const PROFILES_MARKER = Symbol.for('inwire:profiles');
+
+/**
+ * Symbol under which a conditional provider stores the predicate deciding whether
+ * it is registered for the build profile.
+ */
+export const CONDITION_MARKER = Symbol.for('inwire:condition');
+
+/**
+ * Symbol under which the placeholder of a key registered by several conditional
+ * providers stores them, in registration order.
+ */
+export const CANDIDATES_MARKER = Symbol.for('inwire:candidates');
+
+/** Variant used when no variant is registered for the selected profile. */
+export const DEFAULT_PROFILE = 'default';
+
+/** Decides from the build profile whether a conditional provider is registered. */
+export type ProfilePredicate = (profile: string | undefined) => boolean;
+
+/**
+ * A provider whose implementation is picked by the build profile.
+ */
+export interface ProfiledFactory {
+  (container: unknown): never;
+  [PROFILES_MARKER]: Record<string, Factory>;
+}
+
+/**
+ * A provider registered only when its predicate accepts the build profile.
+ */
+export interface ConditionalFactory<T = unknown> extends Factory<T> {
+  [CONDITION_MARKER]: ProfilePredicate;
+}
+
+/**
+ * Placeholder provider standing for the conditional providers of one key, replaced at
+ * `build()` by the one whose predicate accepts the profile.
+ */
+export interface CandidatesFactory {
+  (container: unknown): never;
+  [CANDIDATES_MARKER]: ConditionalFactory[];
+}
+
+/**
+ * Placeholder provider standing for one of `variants`, replaced at `build()` by the
+ * variant of the selected profile.
+ */
+export function profiles(variants: Record<string, Factory>): Factory {
+  const pending = (() => {
+    throw new Error('profiles() was not replaced by a variant at build()');
+  }) as unknown as ProfiledFactory;
+  pending[PROFILES_MARKER] = { ...variants };
+  return pending as unknown as Factory;
+}
+
+/** Checks if a factory is a profile-dependent provider. */
+export function isProfiled(factory: unknown): factory is ProfiledFactory {
+  return (
+    typeof factory === 'function' &&
+    PROFILES_MARKER in factory &&
+    typeof (factory as Record<symbol, unknown>)[PROFILES_MARKER] === 'object'
+  );
+}
+
+/** Marks `factory` as registered only when `predicate` accepts the build profile. */
+export function conditional<T>(factory: Factory<T>, predicate: ProfilePredicate): Factory<T> {
+  const wrapper = withMeta(factory, {}) as ConditionalFactory<T>;
+  wrapper[CONDITION_MARKER] = predicate;
+  return wrapper;
+}
+
+/** Checks if a factory is registered conditionally. */
+export function isConditional(factory: unknown): factory is ConditionalFactory {
+  return (
+    typeof factory === 'function' &&
+    CONDITION_MARKER in factory &&
+    typeof (factory as Record<symbol, unknown>)[CONDITION_MARKER] === 'function'
+  );
+}
+
+/**
+ * Placeholder provider standing for one of the conditional providers `candidates`,
+ * replaced at `build()` by the one whose predicate accepts the profile.
+ */
+export function candidates(candidates: ConditionalFactory[]): Factory {
+  const pending = (() => {
+    throw new Error('candidates() was not replaced by a candidate at build()');
+  }) as unknown as CandidatesFactory;
+  pending[CANDIDATES_MARKER] = [...candidates];
+  return pending as unknown as Factory;
+}
+
+/**
+ * Adds the conditional provider `next` to those already registered for its key
+ * (`existing`: one conditional provider, or the placeholder of several).
+ */
+export function addCandidate(
+  existing: ConditionalFactory | CandidatesFactory,
+  next: ConditionalFactory,
+): Factory {
+  if (!isCandidates(existing)) return candidates([existing, next]);
+  return withMeta(candidates([...existing[CANDIDATES_MARKER], next]), getMeta(existing));
+}
+
+/** Checks if a factory is a placeholder for several conditional providers. */
+export function isCandidates(factory: unknown): factory is CandidatesFactory {
+  return (
+    typeof factory === 'function' &&
+    CANDIDATES_MARKER in factory &&
+    Array.isArray((factory as Record<symbol, unknown>)[CANDIDATES_MARKER])
+  );
+}
+
+/**
+ * Applies `profile` to `factories` in place: each profile-dependent provider is replaced
+ * by its variant for `profile` (or its `default` variant), recorded as `profile` metadata,
+ * and conditional providers whose predicate rejects `profile` are removed. A key with
+ * several conditional providers keeps the one whose predicate accepts `profile`.
+ * Throws `ProfileError` listing every provider left without a variant, or with several.
+ */
+export function selectProfile(
+  factories: Map<string, Factory>,
+  profile: string | undefined,
+): Map<string, Factory> {
+  const missing: string[] = [];
+  const ambiguous: string[] = [];
+  for (const [key, factory] of [...factories]) {
+    if (isConditional(factory) && !factory[CONDITION_MARKER](profile)) {
+      factories.delete(key);
+    } else if (isCandidates(factory)) {
+      const accepted = factory[CANDIDATES_MARKER].filter((c) => c[CONDITION_MARKER](profile));
+      if (accepted.length === 1) {
+        factories.set(key, withMeta(accepted[0], getMeta(factory)));
+      } else {
+        (accepted.length === 0 ? missing : ambiguous).push(key);
+      }
+    } else if (isProfiled(factory)) {
+      const variants = factory[PROFILES_MARKER];
+      const name =
+        profile !== undefined && Object.hasOwn(variants, profile) ? profile : DEFAULT_PROFILE;
+      const variant = variants[name];
+      if (variant) {
+        factories.set(key, withMeta(variant, { ...getMeta(factory), profile: name }));
+      } else {
+        missing.push(key);
+      }
+    }
+  }
+  if (missing.length > 0 || ambiguous.length > 0) {
+    throw new ProfileError(profile, missing, ambiguous);
+  }
+  return factories;
+}
@@ -0,0 +1,50 @@
+import type { Factory, ResolutionContext } from '../domain/types.js';
+import type { Decorator } from './decorator.js';
+
+/**
+ * Symbol under which registration metadata is stored on a factory.
+ */
+export const META_MARKER = Symbol.for('inwire:meta');
+
+/**
+ * Registration metadata carried by a factory, surfaced by introspection.
+ */
+export interface ProviderMeta {
+  /** Dependency keys declared at registration, known before the factory runs. */
+  deps?: string[];
+  /** Free-form labels used by `byTag()`. */
+  tags?: string[];
+  /** Decorators wrapping the provider's instance, in application order. */
+  decorators?: Decorator[];
+  /** Number of leading `decorators` already applied to the instance the factory returns. */
+  appliedDecorators?: number;
+  /** Set when the registration replaced an earlier one through `override()`. */
+  overridden?: boolean;
+  /** Name of the `defineModule()` module that registered the provider. */
+  module?: string;
+  /** Namespace the provider was registered under by `addModule(namespace, module)`. */
+  namespace?: string;
+  /** Variant of an `addProfiles()` provider selected at `build()`. */
+  profile?: string;
+}
+
+/**
+ * Returns a copy of `factory` carrying `meta` merged over its existing metadata.
+ * Other markers (transient, scoped, ...) are preserved; the original function is not mutated.
+ */
+export function withMeta<T>(factory: Factory<T>, meta: ProviderMeta): Factory<T> {
+  const wrapper = ((container: unknown, ctx: ResolutionContext) =>
+    factory(container, ctx)) as Factory<T>;
+  Object.assign(wrapper, factory);
+  (wrapper as unknown as Record<symbol, ProviderMeta>)[META_MARKER] = {
+    ...getMeta(factory),
+    ...meta,
+  };
+  return wrapper;
+}
+
+/** Reads the registration metadata of a factory (empty if none). */
+export function getMeta(factory: unknown): ProviderMeta {
+  if (typeof factory !== 'function' || !(META_MARKER in factory)) return {};
+  return (factory as unknown as Record<symbol, ProviderMeta>)[META_MARKER];
+}
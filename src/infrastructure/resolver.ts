@@ -1,15 +1,36 @@
 import type { AnyWarning } from '../domain/errors.js';
 import {
   AsyncInitErrorWarning,
+  AsyncProviderError,
   CircularDependencyError,
+  ContainerError,
+  CustomWarning,
+  DepsMismatchWarning,
   FactoryError,
   ProviderNotFoundError,
+  ScopedResolutionError,
   ScopeMismatchWarning,
   UndefinedReturnError,
 } from '../domain/errors.js';
+import type { OnInit } from '../domain/lifecycle.js';
 import { hasOnInit } from '../domain/lifecycle.js';
-import type { Factory, ICycleDetector, IDependencyTracker, IResolver } from '../domain/types.js';
+import type {
+  DependencyEdges,
+  Factory,
+  ICycleDetector,
+  IDependencyTracker,
+  InterceptorContext,
+  IResolver,
+  ResolutionContext,
+  ResolutionInterceptor,
+} from '../domain/types.js';
 import { Validator } from '../domain/validation.js';
+import { ALIAS_MARKER, isAlias } from './alias.js';
+import { isAsyncFactory } from './async-factory.js';
+import { declaredDeps, sameKeys } from './declared-deps.js';
+import { applyDecorators } from './decorator.js';
+import { getMeta } from './provider-meta.js';
+import { isScoped } from './scoped.js';
 import { isTransient } from './transient.js';
 
 export interface ResolverDeps {
@@ -18,8 +39,19 @@ export interface ResolverDeps {
   parent?: Resolver;
   name?: string;
   initCalled?: Set<string>;
+  inits?: Map<string, Promise<void>>;
   cycleDetector: ICycleDetector;
   dependencyTracker: IDependencyTracker;
+  interceptors?: readonly ResolutionInterceptor[];
+}
+
+/** Tracking proxy handed to a factory, and the dependency keys it recorded. */
+interface TrackedAccess {
+  proxy: unknown;
+  deps: string[];
+  edges: DependencyEdges;
+  /** Number of leading `deps` read by the factory itself, before its decorators ran. */
+  factoryReads: number;
 }
 
 /**
@@ -32,12 +64,18 @@ export class Resolver implements IResolver {
   private readonly warnings: AnyWarning[] = [];
   private readonly validator = new Validator();
   private readonly initCalled: Set<string>;
+  private readonly pending = new Map<string, Promise<unknown>>();
+  /** Unsettled async provider read by each in-flight async factory, awaited before it fails. */
+  private readonly trips = new Map<string, string>();
+  /** `onInit` run of each initialized key, shared by every caller until `reset()`. */
+  private readonly inits: Map<string, Promise<void>>;
   private deferOnInit = false;
 
   private readonly parent?: Resolver;
   private readonly name?: string;
   private readonly cycleDetector: ICycleDetector;
   private readonly dependencyTracker: IDependencyTracker;
+  private readonly interceptors: readonly ResolutionInterceptor[];
 
   constructor(deps: ResolverDeps) {
     this.factories = deps.factories;
@@ -45,16 +83,38 @@ export class Resolver implements IResolver {
     this.parent = deps.parent;
     this.name = deps.name;
     this.initCalled = deps.initCalled ? new Set(deps.initCalled) : new Set();
+    this.inits = new Map(deps.inits);
     this.cycleDetector = deps.cycleDetector;
     this.dependencyTracker = deps.dependencyTracker;
+    this.interceptors = deps.interceptors ?? [];
   }
 
   getName(): string | undefined {
     return this.name;
   }
 
+  /** Whether this is the root container, where scoped providers cannot be resolved. */
+  isRoot(): boolean {
+    return !this.parent;
+  }
+
+  /** Detector shared with `scope()` children, so cycles are tracked across the hierarchy. */
+  getCycleDetector(): ICycleDetector {
+    return this.cycleDetector;
+  }
+
+  /** Interceptors registered with `use()`, inherited by `scope()` and `extend()` children. */
+  getInterceptors(): readonly ResolutionInterceptor[] {
+    return this.interceptors;
+  }
+
   resolve(key: string, chain: string[] = []): unknown {
-    const factory = this.factories.get(key);
+    const target = this.aliasTarget(key);
+    if (target !== undefined) {
+      return this.resolve(target, chain);
+    }
+
+    const factory = this.localFactory(key);
 
     if (factory && !isTransient(factory) && this.cache.has(key)) {
       return this.cache.get(key);
@@ -69,66 +129,108 @@ export class Resolver implements IResolver {
       throw new ProviderNotFoundError(key, chain, allKeys, suggestion);
     }
 
-    if (this.cycleDetector.isResolving(key)) {
-      throw new CircularDependencyError(key, [...chain]);
+    if (isScoped(factory) && !this.parent) {
+      throw new ScopedResolutionError(key, [...chain]);
+    }
+
+    if (isAsyncFactory(factory)) {
+      throw new AsyncProviderError(key, [...chain]);
+    }
+
+    if (this.cycleDetector.isResolving(key, this)) {
+      throw new CircularDependencyError(key, [...chain], this.scopesOf(chain));
     }
 
-    this.cycleDetector.enter(key);
+    this.cycleDetector.enter(key, this);
     const currentChain = [...chain, key];
+    const ctx = this.context(key, factory, chain);
+    const hooks = this.interceptorContext(ctx);
 
     try {
-      const deps: string[] = [];
-      const trackingProxy = this.dependencyTracker.createTrackingProxy(
-        deps,
-        currentChain,
-        (depKey, depChain) => this.resolve(depKey, depChain),
-      );
+      for (const interceptor of this.interceptors) interceptor.beforeResolve?.(key, hooks);
+      const access = this.track(currentChain, (depKey, depChain) => this.resolve(depKey, depChain));
+      const { proxy } = access;
 
-      const instance = factory(trackingProxy);
+      const created = factory(proxy, ctx);
+      access.factoryReads = access.deps.length;
+      const instance = applyDecorators(factory, created, proxy);
 
       if (instance === undefined) {
         throw new UndefinedReturnError(key, currentChain);
       }
 
-      this.dependencyTracker.recordDeps(key, deps);
+      return this.store(key, factory, this.afterResolve(key, instance, hooks), access);
+    } catch (error) {
+      throw this.failed(key, currentChain, error, hooks);
+    } finally {
+      this.cycleDetector.leave(key, this);
+    }
+  }
 
-      if (!isTransient(factory)) {
-        for (const dep of deps) {
-          const depFactory = this.getFactory(dep);
-          if (depFactory && isTransient(depFactory)) {
-            this.warnings.push(new ScopeMismatchWarning(key, dep));
-          }
-        }
-      }
+  /**
+   * Resolves a key, awaiting async factories along the way.
+   * Async providers reachable through declared deps are awaited before any factory runs;
+   * a factory reading an undeclared one that has not settled fails instead of running twice.
+   * Concurrent calls for the same async provider share one in-flight Promise.
+   */
+  async resolveAsync(key: string, chain: string[] = []): Promise<unknown> {
+    const target = this.aliasTarget(key);
+    if (target !== undefined) {
+      return this.resolveAsync(target, chain);
+    }
 
-      if (!isTransient(factory)) {
-        this.cache.set(key, instance);
-      }
+    const factory = this.localFactory(key);
 
-      if (!this.deferOnInit && !this.initCalled.has(key) && hasOnInit(instance)) {
-        this.initCalled.add(key);
-        const initResult = instance.onInit();
-        if (initResult instanceof Promise) {
-          initResult.catch((error) => {
-            this.warnings.push(new AsyncInitErrorWarning(key, error));
-          });
-        }
+    if (!factory) {
+      if (this.parent) {
+        return this.parent.resolveAsync(key, chain);
       }
+      return this.resolve(key, chain);
+    }
 
-      return instance;
-    } catch (error) {
-      if (
-        error instanceof CircularDependencyError ||
-        error instanceof ProviderNotFoundError ||
-        error instanceof UndefinedReturnError ||
-        error instanceof FactoryError
-      ) {
-        throw error;
-      }
-      throw new FactoryError(key, currentChain, error);
-    } finally {
-      this.cycleDetector.leave(key);
+    if (isScoped(factory) && !this.parent) {
+      throw new ScopedResolutionError(key, [...chain]);
+    }
+
+    if (!isAsyncFactory(factory)) {
+      if (!this.cache.has(key)) await this.settleKnownDeps(key, chain);
+      return this.resolve(key, chain);
+    }
+
+    if (this.cache.has(key)) {
+      return this.cache.get(key);
+    }
+
+    if (chain.includes(key)) {
+      throw new CircularDependencyError(key, [...chain]);
+    }
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const promise = this.settleKnownDeps(key, chain)
+      .then(() => this.createAsync(key, factory, chain))
+      .finally(() => {
+        this.pending.delete(key);
+      });
+    this.pending.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Resolves a key like `resolveAsync()` and awaits its `onInit`. The init runs once per
+   * instance: concurrent callers share the in-flight run, and a failed run rejects every
+   * caller until `reset()` clears it.
+   */
+  async ready(key: string): Promise<unknown> {
+    const target = this.aliasTarget(key);
+    if (target !== undefined) {
+      return this.ready(target);
     }
+
+    const instance = await this.resolveAsync(key);
+    await this.owner(key).callOnInit(key);
+    return instance;
   }
 
   isResolved(key: string): boolean {
@@ -139,6 +241,14 @@ export class Resolver implements IResolver {
     return this.dependencyTracker.getDepGraph();
   }
 
+  getOptionalDepGraph(): Map<string, string[]> {
+    return this.dependencyTracker.getOptionalDepGraph();
+  }
+
+  getLazyDepGraph(): Map<string, string[]> {
+    return this.dependencyTracker.getLazyDepGraph();
+  }
+
   getResolvedKeys(): string[] {
     return [...this.cache.keys()];
   }
@@ -147,6 +257,11 @@ export class Resolver implements IResolver {
     return this.factories;
   }
 
+  /** Look up a factory in this resolver or its parent chain. */
+  getFactory(key: string): Factory | undefined {
+    return this.factories.get(key) ?? this.parent?.getFactory(key);
+  }
+
   getCache(): Map<string, unknown> {
     return this.cache;
   }
@@ -170,11 +285,13 @@ export class Resolver implements IResolver {
   }
 
   async callOnInit(key: string): Promise<void> {
+    const init = this.inits.get(key);
+    if (init) return init;
     if (this.initCalled.has(key)) return;
     if (!this.cache.has(key)) return;
     const instance = this.cache.get(key);
     if (hasOnInit(instance)) {
-      await instance.onInit();
+      return this.initialize(key, instance);
     }
     this.initCalled.add(key);
   }
@@ -182,11 +299,13 @@ export class Resolver implements IResolver {
   clearInitState(...keys: string[]): void {
     for (const key of keys) {
       this.initCalled.delete(key);
+      this.inits.delete(key);
     }
   }
 
   clearAllInitState(): void {
     this.initCalled.clear();
+    this.inits.clear();
   }
 
   clearDepGraph(...keys: string[]): void {
@@ -204,7 +323,9 @@ export class Resolver implements IResolver {
   clearWarningsForKeys(...keys: string[]): void {
     const keySet = new Set(keys);
     const keep = this.warnings.filter((w) => {
-      if (w.type === 'async_init_error') return !keySet.has(w.details.key);
+      if (w.type === 'async_init_error' || w.type === 'deps_mismatch' || w.type === 'custom') {
+        return !keySet.has(w.details.key);
+      }
       if (w.type === 'scope_mismatch') {
         return !keySet.has(w.details.singleton) && !keySet.has(w.details.transient);
       }
@@ -218,8 +339,279 @@ export class Resolver implements IResolver {
     return this.initCalled;
   }
 
-  /** Look up a factory in this resolver or its parent chain. */
-  private getFactory(key: string): Factory | undefined {
-    return this.factories.get(key) ?? this.parent?.getFactory(key);
+  getInits(): Map<string, Promise<void>> {
+    return this.inits;
+  }
+
+  /**
+   * Awaits the async providers `key` reaches through declared `deps` (and aliases),
+   * walking through sync providers, so its factory finds them settled.
+   */
+  private async settleKnownDeps(key: string, chain: string[]): Promise<void> {
+    const seen = new Set([key]);
+    const queue = [key];
+    const asyncDeps: string[] = [];
+    for (let current = queue.shift(); current !== undefined; current = queue.shift()) {
+      const factory = this.getFactory(current);
+      const deps = isAlias(factory) ? [factory[ALIAS_MARKER]] : (declaredDeps(factory) ?? []);
+      for (const dep of deps) {
+        if (seen.has(dep)) continue;
+        seen.add(dep);
+        if (isAsyncFactory(this.getFactory(dep))) asyncDeps.push(dep);
+        else queue.push(dep);
+      }
+    }
+    await Promise.all(asyncDeps.map((dep) => this.resolveAsync(dep, [...chain, key])));
+  }
+
+  /**
+   * Error reported when the factory of async `key` throws. Reading an async provider that
+   * has not settled is a cycle when that provider is being resolved up the chain, or is in
+   * flight and reads `key` back — it is awaited to find out. Otherwise the
+   * `AsyncProviderError` stands: the factory is not run again.
+   */
+  private async unsettled(key: string, error: unknown): Promise<unknown> {
+    if (!(error instanceof AsyncProviderError)) return error;
+    const { key: dep, chain } = error.details;
+    if (chain.includes(dep)) {
+      return new CircularDependencyError(dep, chain.slice(chain.indexOf(dep)));
+    }
+    const inFlight = this.pending.get(dep);
+    if (!inFlight) return error;
+
+    this.trips.set(key, dep);
+    try {
+      const path = this.tripPath(dep, key);
+      if (path) return new CircularDependencyError(key, [...chain, ...path]);
+      const failure = await inFlight.then(
+        () => undefined,
+        (reason: unknown) => reason,
+      );
+      if (failure instanceof CircularDependencyError) {
+        const { key: start, chain: hops } = failure.details;
+        const cycle = hops.slice(hops.indexOf(start));
+        const at = cycle.indexOf(key);
+        if (at !== -1) {
+          return new CircularDependencyError(key, [...cycle.slice(at), ...cycle.slice(0, at)]);
+        }
+      }
+      return error;
+    } finally {
+      this.trips.delete(key);
+    }
+  }
+
+  /** Keys from `from` following `trips` until `to`, or `undefined` when it is not reached. */
+  private tripPath(from: string, to: string): string[] | undefined {
+    const path: string[] = [];
+    let current: string | undefined = from;
+    while (current !== undefined && !path.includes(current)) {
+      if (current === to) return path;
+      path.push(current);
+      current = this.trips.get(current);
+    }
+    return undefined;
+  }
+
+  private async createAsync(key: string, factory: Factory, chain: string[]): Promise<unknown> {
+    const currentChain = [...chain, key];
+    const access = this.track(currentChain, (depKey, depChain) => this.resolve(depKey, depChain));
+    const { proxy } = access;
+    const ctx = this.context(key, factory, chain);
+    const hooks = this.interceptorContext(ctx);
+
+    let instance: unknown;
+    try {
+      for (const interceptor of this.interceptors) interceptor.beforeResolve?.(key, hooks);
+      const created = await factory(proxy, ctx);
+      access.factoryReads = access.deps.length;
+      instance = await applyDecorators(factory, created, proxy);
+      if (instance !== undefined) instance = this.afterResolve(key, instance, hooks);
+    } catch (error) {
+      throw this.failed(key, currentChain, await this.unsettled(key, error), hooks);
+    }
+
+    if (instance === undefined) {
+      throw this.failed(key, currentChain, new UndefinedReturnError(key, currentChain), hooks);
+    }
+
+    return this.store(key, factory, instance, access);
+  }
+
+  /**
+   * Context handed to interceptors for one resolution: the factory's context plus
+   * `warn()`, recording a `CustomWarning` for its key.
+   */
+  private interceptorContext(ctx: ResolutionContext): InterceptorContext {
+    return {
+      ...ctx,
+      warn: (message, details) => {
+        this.warnings.push(new CustomWarning(ctx.key, message, details));
+      },
+    };
+  }
+
+  /** Passes `instance` through each interceptor's `afterResolve`, in registration order. */
+  private afterResolve(key: string, instance: unknown, ctx: InterceptorContext): unknown {
+    let result = instance;
+    for (const interceptor of this.interceptors) {
+      const replacement = interceptor.afterResolve?.(key, result, ctx);
+      if (replacement !== undefined) result = replacement;
+    }
+    return result;
+  }
+
+  /** Wraps a resolution failure like `wrapError()` and reports it to each `onError`. */
+  private failed(key: string, chain: string[], error: unknown, ctx: InterceptorContext): unknown {
+    const wrapped = this.wrapError(key, chain, error);
+    for (const interceptor of this.interceptors) interceptor.onError?.(key, wrapped, ctx);
+    return wrapped;
+  }
+
+  /** Creates the tracking proxy handed to a factory, with the arrays it records into. */
+  private track(
+    chain: string[],
+    resolve: (key: string, chain: string[]) => unknown,
+  ): TrackedAccess {
+    const deps: string[] = [];
+    const edges: DependencyEdges = { optional: [], lazy: [] };
+    const proxy = this.dependencyTracker.createTrackingProxy(
+      deps,
+      chain,
+      resolve,
+      edges,
+      (depKey) => this.getFactory(depKey) !== undefined,
+      () => this.getAllRegisteredKeys(),
+    );
+    return { proxy, deps, edges, factoryReads: 0 };
+  }
+
+  /**
+   * Scope of each hop of `[...chain, key]` about to be re-entered by this resolver, read
+   * from the hops in progress. `undefined` when they do not match `chain` (e.g. an async
+   * provider is part of it), in which case the cycle is reported without scopes.
+   */
+  private scopesOf(chain: string[]): string[] | undefined {
+    const path = this.cycleDetector.path().slice(-chain.length || Number.POSITIVE_INFINITY);
+    if (path.length !== chain.length || path.some((hop, i) => hop.key !== chain[i])) {
+      return undefined;
+    }
+    return [...path.map((hop) => Resolver.scopeLabel(hop.owner)), Resolver.scopeLabel(this)];
+  }
+
+  /** Name shown for a resolver in cycle reports: its scope name, or `root` / `scope`. */
+  private static scopeLabel(owner: object | undefined): string {
+    if (!(owner instanceof Resolver)) return '?';
+    return owner.name ?? (owner.parent ? 'scope' : 'root');
+  }
+
+  /** Second argument handed to `factory` when it builds `key`, requested through `chain`. */
+  private context(key: string, factory: Factory, chain: string[]): ResolutionContext {
+    const { tags = [], deps, module, namespace } = getMeta(factory);
+    return {
+      key,
+      ...(this.name && { scopeName: this.name }),
+      chain: [...chain],
+      tags: [...tags],
+      ...(deps && { deps: [...deps] }),
+      ...(module && { module }),
+      ...(namespace && { namespace }),
+    };
+  }
+
+  /** Records deps and warnings, caches singletons and fires `onInit`. */
+  private store(
+    key: string,
+    factory: Factory,
+    instance: unknown,
+    { deps, edges, factoryReads }: TrackedAccess,
+  ): unknown {
+    this.dependencyTracker.recordDeps(key, deps, edges);
+
+    const declared = declaredDeps(factory);
+    const factoryDeps = deps.slice(0, factoryReads);
+    if (declared && !sameKeys(declared, factoryDeps) && !this.hasDepsMismatchWarning(key)) {
+      this.warnings.push(new DepsMismatchWarning(key, declared, factoryDeps));
+    }
+
+    if (!isTransient(factory)) {
+      for (const dep of [...deps, ...edges.optional]) {
+        const depFactory = this.getFactory(dep);
+        if (depFactory && isTransient(depFactory)) {
+          this.warnings.push(new ScopeMismatchWarning(key, dep));
+        }
+      }
+    }
+
+    if (!isTransient(factory)) {
+      this.cache.set(key, instance);
+    }
+
+    if (!this.deferOnInit && !this.initCalled.has(key) && hasOnInit(instance)) {
+      this.initialize(key, instance).catch((error) => {
+        this.warnings.push(new AsyncInitErrorWarning(key, error));
+      });
+    }
+
+    return instance;
+  }
+
+  /**
+   * Starts `onInit` of `key`'s instance and records the run for later callers.
+   * A synchronous throw is recorded as a failed run and rethrown.
+   */
+  private initialize(key: string, instance: OnInit): Promise<void> {
+    this.initCalled.add(key);
+    try {
+      const init = Promise.resolve(instance.onInit());
+      this.inits.set(key, init);
+      return init;
+    } catch (error) {
+      const failed = Promise.reject(error);
+      failed.catch(() => {}); // surfaced by the throw; later callers still see the failure
+      this.inits.set(key, failed);
+      throw error;
+    }
+  }
+
+  /** Resolver holding the instance of `key`: this one or the parent it was resolved from. */
+  private owner(key: string): Resolver {
+    if (this.cache.has(key) || !this.parent) return this;
+    return this.parent.owner(key);
+  }
+
+  private hasDepsMismatchWarning(key: string): boolean {
+    return this.warnings.some((w) => w.type === 'deps_mismatch' && w.details.key === key);
+  }
+
+  /** Container errors pass through untouched; anything else is wrapped in a FactoryError. */
+  private wrapError(key: string, chain: string[], error: unknown): unknown {
+    if (error instanceof ContainerError) {
+      return error;
+    }
+    return new FactoryError(key, chain, error);
+  }
+
+  /**
+   * Target of `key` if it is an alias (own or inherited), recorded as the alias's only dep.
+   * Aliases resolve from the requesting resolver, so a scope overriding the target is honored.
+   */
+  private aliasTarget(key: string): string | undefined {
+    const factory = this.getFactory(key);
+    if (!isAlias(factory)) return undefined;
+    const target = factory[ALIAS_MARKER];
+    this.dependencyTracker.recordDeps(key, [target]);
+    return target;
+  }
+
+  /**
+   * Factory this resolver instantiates itself: its own registration, or a scoped
+   * provider inherited from an ancestor (each scope caches its own instance).
+   */
+  private localFactory(key: string): Factory | undefined {
+    const own = this.factories.get(key);
+    if (own || !this.parent) return own;
+    const inherited = this.parent.getFactory(key);
+    return inherited && isScoped(inherited) ? inherited : undefined;
   }
 }
@@ -0,0 +1,49 @@
+import type { Factory, ResolutionContext } from '../domain/types.js';
+
+/**
+ * Symbol used to mark a factory as scoped.
+ * Scoped factories are declared once and instantiated once per `scope()` child.
+ */
+export const SCOPED_MARKER = Symbol.for('inwire:scoped');
+
+/**
+ * A factory wrapper that marks it as scoped.
+ */
+export interface ScopedFactory<T = unknown> {
+  (container: unknown): T;
+  [SCOPED_MARKER]: true;
+}
+
+/**
+ * Wraps a factory so that every `scope()` child gets its own cached instance.
+ * Resolving it from the root container throws `ScopedResolutionError`.
+ * The builder equivalent is `addScoped()`.
+ *
+ * @example
+ * ```typescript
+ * import { scoped } from 'inwire';
+ *
+ * const app = base.extend({
+ *   unitOfWork: scoped((c) => new UnitOfWork(c.db)),
+ * });
+ *
+ * const request = app.scope({});
+ * request.unitOfWork === request.unitOfWork;         // true  — cached per scope
+ * request.unitOfWork === app.scope({}).unitOfWork;   // false — one per scope
+ * ```
+ */
+export function scoped<T>(factory: Factory<T>): Factory<T> {
+  const wrapper = ((container: unknown, ctx: ResolutionContext) =>
+    factory(container, ctx)) as ScopedFactory<T>;
+  wrapper[SCOPED_MARKER] = true;
+  return wrapper;
+}
+
+/** Checks if a factory is marked as scoped. */
+export function isScoped(factory: unknown): factory is ScopedFactory {
+  return (
+    typeof factory === 'function' &&
+    SCOPED_MARKER in factory &&
+    (factory as Record<symbol, unknown>)[SCOPED_MARKER] === true
+  );
+}
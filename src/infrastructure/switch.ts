@@ -0,0 +1,69 @@
+import { SwitchError } from '../domain/errors.js';
+import type { Factory, ResolutionContext } from '../domain/types.js';
+
+/**
+ * Symbol used to mark a switch provider — a provider picking one of its branches
+ * at resolution time. The marker holds the branch names.
+ */
+export const SWITCH_MARKER = Symbol.for('inwire:switch');
+
+/**
+ * A provider whose implementation is the branch named by its selector.
+ */
+export interface SwitchFactory<T = unknown> {
+  (container: unknown, ctx: ResolutionContext): T;
+  [SWITCH_MARKER]: string[];
+}
+
+/**
+ * Returns a provider that reads `selector` and runs the branch it names, both through
+ * the same container — so the selector's deps and the branch's deps are all tracked.
+ * Throws `SwitchError` listing the branches when the selector names none of them.
+ */
+export function switchOn<T>(
+  selector: Factory<string>,
+  branches: Record<string, Factory<T>>,
+): Factory<T> {
+  const names = Object.keys(branches);
+  const wrapper = ((container: unknown, ctx: ResolutionContext) => {
+    const branch = selector(container, ctx);
+    if (!Object.hasOwn(branches, branch)) throw new SwitchError(ctx.key, branch, names);
+    return branches[branch](container, ctx);
+  }) as SwitchFactory<T>;
+  wrapper[SWITCH_MARKER] = names;
+  return wrapper;
+}
+
+/** Checks if a factory is a switch provider. */
+export function isSwitch(factory: unknown): factory is SwitchFactory {
+  return (
+    typeof factory === 'function' &&
+    SWITCH_MARKER in factory &&
+    Array.isArray((factory as Record<symbol, unknown>)[SWITCH_MARKER])
+  );
+}
+
+/**
+ * Switch providers to reset along with `keys`: those whose recorded deps include a
+ * reset key, directly or through another such switch, so their selector runs again.
+ */
+export function dependentSwitches(
+  keys: string[],
+  depGraph: Map<string, string[]>,
+  getFactory: (key: string) => Factory | undefined,
+): string[] {
+  const reset = new Set(keys);
+  const switches: string[] = [];
+  for (let changed = true; changed; ) {
+    changed = false;
+    for (const [key, deps] of depGraph) {
+      if (reset.has(key) || !isSwitch(getFactory(key))) continue;
+      if (deps.some((dep) => reset.has(dep))) {
+        reset.add(key);
+        switches.push(key);
+        changed = true;
+      }
+    }
+  }
+  return switches;
+}
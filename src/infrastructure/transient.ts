@@ -1,4 +1,4 @@
-import type { Factory } from '../domain/types.js';
+import type { Factory, ResolutionContext } from '../domain/types.js';
 
 /**
  * Symbol used to mark a factory as transient.
@@ -32,7 +32,8 @@ export interface TransientFactory<T = unknown> {
  * ```
  */
 export function transient<T>(factory: Factory<T>): Factory<T> {
-  const wrapper = ((container: unknown) => factory(container)) as TransientFactory<T>;
+  const wrapper = ((container: unknown, ctx: ResolutionContext) =>
+    factory(container, ctx)) as TransientFactory<T>;
   wrapper[TRANSIENT_MARKER] = true;
   return wrapper;
 }
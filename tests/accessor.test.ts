@@ -0,0 +1,87 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { container, FactoryError, ProviderNotFoundError, ReservedKeyError } from '../src/index.js';
+
+interface Plugin {
+  name: string;
+}
+
+function app() {
+  return container()
+    .add('db', () => 'pg')
+    .add('audit', (): Plugin => ({ name: 'audit' }))
+    .add('metrics', (): Plugin => ({ name: 'metrics' }))
+    .build();
+}
+
+describe('container.$', () => {
+  it('get() resolves keys chosen at runtime', () => {
+    const c = app();
+    const names = ['audit', 'metrics'];
+
+    expect(names.map((name) => c.$.get<Plugin>(name).name)).toEqual(['audit', 'metrics']);
+    expect(c.$.get('db')).toBe(c.db);
+  });
+
+  it('types known keys', () => {
+    const c = app();
+
+    expectTypeOf(c.$.get('db')).toEqualTypeOf<string>();
+    expectTypeOf(c.$.tryGet('audit')).toEqualTypeOf<Plugin | undefined>();
+    expectTypeOf(c.$.tryGet('other')).toEqualTypeOf<unknown>();
+    expectTypeOf(c.$.tryGet<Plugin>('other')).toEqualTypeOf<Plugin | undefined>();
+  });
+
+  it('get() throws ProviderNotFoundError with a suggestion', () => {
+    const c = app();
+
+    expect(() => c.$.get('audti')).toThrow(ProviderNotFoundError);
+    try {
+      c.$.get('audti');
+    } catch (e) {
+      expect((e as ProviderNotFoundError).details.suggestion).toBe('audit');
+    }
+  });
+
+  it('tryGet() returns undefined for unregistered keys only', () => {
+    const c = container()
+      .add('broken', (): string => {
+        throw new Error('boom');
+      })
+      .build();
+
+    expect(c.$.tryGet('missing')).toBeUndefined();
+    expect(() => c.$.tryGet('broken')).toThrow(FactoryError);
+  });
+
+  it('has() respects the parent chain and does not resolve', () => {
+    let created = 0;
+    const parent = container()
+      .add('db', () => {
+        created++;
+        return 'pg';
+      })
+      .build();
+    const child = parent.scope({ requestId: () => 'r-1' });
+
+    expect(child.$.has('db')).toBe(true);
+    expect(child.$.has('requestId')).toBe(true);
+    expect(parent.$.has('requestId')).toBe(false);
+    expect(child.$.has('inspect')).toBe(false);
+    expect(created).toBe(0);
+    expect(child.$.tryGet('db')).toBe('pg');
+  });
+
+  it('resolves namespaced keys', () => {
+    const c = container()
+      .addModule('billing', (b) => b.add('repo', () => 'invoices'))
+      .build();
+
+    expect(c.$.get('billing.repo')).toBe('invoices');
+    expect(c.$.has('billing')).toBe(true);
+    expect(c.$.tryGet('auth.repo')).toBeUndefined();
+  });
+
+  it('is a reserved key', () => {
+    expect(() => container().add('$' as never, () => 1)).toThrow(ReservedKeyError);
+  });
+});
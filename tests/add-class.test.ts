@@ -0,0 +1,121 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { container } from '../src/index.js';
+
+interface Logger {
+  log(msg: string): void;
+}
+
+class ConsoleLogger implements Logger {
+  log() {}
+}
+
+class UserRepo {
+  find(id: string) {
+    return { id };
+  }
+}
+
+class UserService {
+  static inject = ['userRepo', 'logger'] as const;
+  constructor(
+    readonly repo: UserRepo,
+    readonly logger: Logger,
+  ) {}
+}
+
+class AuditService {
+  constructor(readonly logger: Logger) {}
+}
+
+class Clock {
+  now() {
+    return 0;
+  }
+}
+
+describe('addClass', () => {
+  it('constructs the class with explicitly listed deps', () => {
+    const c = container()
+      .add('logger', () => new ConsoleLogger())
+      .addClass('audit', AuditService, ['logger'])
+      .build();
+
+    expectTypeOf<typeof c.audit>().toEqualTypeOf<AuditService>();
+    expect(c.audit).toBeInstanceOf(AuditService);
+    expect(c.audit.logger).toBe(c.logger);
+    expect(c.audit).toBe(c.audit);
+  });
+
+  it('reads deps from a static inject property', () => {
+    const c = container()
+      .add('userRepo', () => new UserRepo())
+      .add('logger', () => new ConsoleLogger())
+      .addClass('userService', UserService)
+      .build();
+
+    expect(c.userService.repo).toBe(c.userRepo);
+    expect(c.userService.logger).toBe(c.logger);
+  });
+
+  it('accepts parameterless classes without deps', () => {
+    const c = container().addClass('clock', Clock).build();
+    expect(c.clock.now()).toBe(0);
+  });
+
+  it('type-checks deps against constructor parameters and registered keys', () => {
+    const base = container()
+      .add('logger', () => new ConsoleLogger())
+      .add('userRepo', () => new UserRepo());
+
+    // @ts-expect-error — 'userRepo' is not a Logger
+    base.addClass('audit', AuditService, ['userRepo']);
+    // @ts-expect-error — 'cache' is not registered
+    base.addClass('audit2', AuditService, ['cache']);
+    // @ts-expect-error — UserService needs deps but 'userRepo'/'logger' are missing
+    container().addClass('userService', UserService);
+    // @ts-expect-error — AuditService has no static inject
+    base.addClass('audit3', AuditService);
+  });
+
+  it('shows declared deps in inspect() before resolution', () => {
+    const c = container()
+      .add('userRepo', () => new UserRepo())
+      .add('logger', () => new ConsoleLogger())
+      .addClass('userService', UserService)
+      .build();
+
+    expect(c.describe('userService')).toEqual({
+      key: 'userService',
+      resolved: false,
+      deps: ['userRepo', 'logger'],
+      scope: 'singleton',
+    });
+    expect(String(c)).toContain('userService -> [userRepo, logger] (pending)');
+  });
+
+  it('accepts registration options', () => {
+    const c = container()
+      .add('logger', () => new ConsoleLogger())
+      .addClass('audit', AuditService, ['logger'], { tags: ['audit'] })
+      .addClass('clock', Clock, { tags: ['infra'] })
+      .build();
+
+    expect(c.byTag('audit').keys).toEqual(['audit']);
+    expect(c.byTag('infra').keys).toEqual(['clock']);
+  });
+
+  it('constrains the instance type in contract mode', () => {
+    interface Deps {
+      logger: Logger;
+      audit: AuditService;
+    }
+    const c = container<Deps>()
+      .addClass('logger', ConsoleLogger)
+      .addClass('audit', AuditService, ['logger'])
+      .build();
+
+    expect(c.audit.logger).toBe(c.logger);
+    // @ts-expect-error — Clock is not an AuditService
+    container<Deps>().addClass('audit', Clock);
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { AliasError, container } from '../src/index.js';
+
+interface Logger {
+  log(msg: string): void;
+}
+
+class ConsoleLogger implements Logger {
+  log() {}
+}
+
+describe('aliases', () => {
+  it('resolves to the same cached instance as the target', () => {
+    let count = 0;
+    const c = container()
+      .add('logger', () => ({ id: ++count }))
+      .alias('appLogger', 'logger')
+      .build();
+
+    expect(c.appLogger).toBe(c.logger);
+    expect(count).toBe(1);
+  });
+
+  it('is typed in free mode', () => {
+    const c = container()
+      .add('logger', () => new ConsoleLogger())
+      .alias('appLogger', 'logger')
+      .add('service', (c) => c.appLogger)
+      .build();
+
+    expectTypeOf<typeof c.appLogger>().toEqualTypeOf<ConsoleLogger>();
+    expect(c.service).toBe(c.logger);
+  });
+
+  it('is typed in contract mode', () => {
+    interface AppDeps {
+      ILogger: Logger;
+      logger: ConsoleLogger;
+    }
+    const c = container<AppDeps>()
+      .add('logger', () => new ConsoleLogger())
+      .alias('ILogger', 'logger')
+      .build();
+
+    expectTypeOf<typeof c.ILogger>().toEqualTypeOf<ConsoleLogger>();
+    expect(c.ILogger).toBe(c.logger);
+  });
+
+  it('rejects targets that do not satisfy the contract', () => {
+    interface AppDeps {
+      ILogger: Logger;
+      port: number;
+    }
+    container<AppDeps>()
+      .add('port', () => 3000)
+      // @ts-expect-error — number is not assignable to Logger
+      .alias('ILogger', 'port');
+  });
+
+  it('follows alias chains', () => {
+    const c = container()
+      .add('logger', () => new ConsoleLogger())
+      .alias('ILogger', 'logger')
+      .alias('log', 'ILogger')
+      .build();
+
+    expect(c.log).toBe(c.logger);
+  });
+
+  it('appears under aliases in inspect(), not as a provider', () => {
+    const c = container()
+      .add('logger', () => new ConsoleLogger())
+      .alias('ILogger', 'logger')
+      .add('service', (c) => c.ILogger)
+      .build();
+
+    c.service;
+    const graph = c.inspect();
+    expect(Object.keys(graph.providers)).toEqual(['logger', 'service']);
+    expect(graph.aliases).toEqual({ ILogger: 'logger' });
+    expect(c.health().totalProviders).toBe(2);
+    expect(c.describe('ILogger')).toEqual({
+      key: 'ILogger',
+      aliasOf: 'logger',
+      resolved: true,
+      deps: [],
+      scope: 'singleton',
+    });
+    expect(String(c)).toContain('ILogger = logger');
+  });
+
+  it('omits aliases from inspect() when there are none', () => {
+    const c = container()
+      .add('logger', () => new ConsoleLogger())
+      .build();
+
+    expect(c.inspect()).not.toHaveProperty('aliases');
+  });
+
+  it('resolves the target overridden in a scope', () => {
+    const app = container()
+      .add('tenant', () => 'root')
+      .alias('currentTenant', 'tenant')
+      .build();
+
+    const request = app.scope({ tenant: () => 'acme' });
+    expect(request.currentTenant).toBe('acme');
+    expect(app.currentTenant).toBe('root');
+  });
+
+  it('follows the target overridden by extend()', () => {
+    const app = container()
+      .add('logger', (): Logger => new ConsoleLogger())
+      .alias('ILogger', 'logger')
+      .build();
+
+    const silent: Logger = { log() {} };
+    const extended = app.extend({ logger: () => silent });
+    expect(extended.ILogger).toBe(silent);
+  });
+
+  it('resolves async targets through resolveAsync()', async () => {
+    const c = container()
+      .addAsync('db', async () => ({ url: 'pg' }))
+      .alias('IDatabase', 'db')
+      .build();
+
+    expect(await c.resolveAsync('IDatabase')).toBe(await c.resolveAsync('db'));
+  });
+
+  it('orders onInit after the target in preload()', async () => {
+    const order: string[] = [];
+    const c = container()
+      .add('logger', () => ({
+        onInit() {
+          order.push('logger');
+        },
+      }))
+      .alias('ILogger', 'logger')
+      .add('service', (c) => ({
+        logger: c.ILogger,
+        onInit() {
+          order.push('service');
+        },
+      }))
+      .build();
+
+    await c.preload();
+    expect(order).toEqual(['logger', 'service']);
+  });
+
+  it('throws AliasError at build() when the target is missing', () => {
+    const builder = container()
+      .add('logger', () => new ConsoleLogger())
+      .alias('ILogger', 'loger' as 'logger');
+
+    expect(() => builder.build()).toThrow(AliasError);
+    try {
+      builder.build();
+    } catch (e) {
+      const err = e as AliasError;
+      expect(err.details).toEqual({
+        alias: 'ILogger',
+        reason: 'missing_target',
+        path: ['ILogger', 'loger'],
+        suggestion: 'logger',
+      });
+      expect(err.hint).toContain(".alias('ILogger', 'logger')");
+    }
+  });
+
+  it('throws AliasError at build() when aliases form a loop', () => {
+    const builder = container()
+      .alias('a', 'b' as never)
+      .alias('b', 'a' as never);
+
+    expect(() => builder.build()).toThrow(AliasError);
+    try {
+      builder.build();
+    } catch (e) {
+      const err = e as AliasError;
+      expect(err.details.reason).toBe('loop');
+      expect(err.details.path).toEqual(['a', 'b', 'a']);
+    }
+  });
+
+  it('module() validates aliases post-build', () => {
+    const app = container()
+      .add('logger', () => new ConsoleLogger())
+      .build();
+    const logger = app.logger;
+
+    expect(app.module((b) => b.alias('ILogger', 'logger')).ILogger).toBe(logger);
+    expect(() => app.module((b) => b.alias('IDb', 'db' as 'logger'))).toThrow(AliasError);
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import {
+  AsyncProviderError,
+  asyncFactory,
+  CircularDependencyError,
+  container,
+  FactoryError,
+} from '../src/index.js';
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe('async factories', () => {
+  it('resolveAsync awaits the factory and caches the settled instance', async () => {
+    let count = 0;
+    const c = container()
+      .addAsync('db', async () => {
+        await sleep(5);
+        return { id: ++count };
+      })
+      .build();
+
+    const db = await c.resolveAsync('db');
+    expect(db).toEqual({ id: 1 });
+    expect(c.db).toBe(db);
+    expect(await c.resolveAsync('db')).toBe(db);
+    expect(count).toBe(1);
+  });
+
+  it('types the provider as the settled value', async () => {
+    const c = container()
+      .addAsync('db', async () => ({ url: 'pg://' }))
+      .add('repo', (c) => ({ url: c.db.url }), { deps: ['db'] })
+      .build();
+
+    expectTypeOf<typeof c.db>().toEqualTypeOf<{ url: string }>();
+    expectTypeOf(c.resolveAsync('db')).toEqualTypeOf<Promise<{ url: string }>>();
+    expect((await c.resolveAsync('repo')).url).toBe('pg://');
+  });
+
+  it('throws AsyncProviderError on synchronous access before settling', () => {
+    const c = container()
+      .addAsync('db', async () => 'pg')
+      .add('repo', (c) => `repo:${c.db}`)
+      .build();
+
+    expect(() => c.db).toThrow(AsyncProviderError);
+    try {
+      c.repo;
+      expect.fail('should throw');
+    } catch (e) {
+      const err = e as AsyncProviderError;
+      expect(err).toBeInstanceOf(AsyncProviderError);
+      expect(err.details).toEqual({ key: 'db', chain: ['repo'] });
+      expect(err.hint).toContain("resolveAsync('repo')");
+      expect(err.hint).toContain("{ deps: ['db'] }");
+    }
+  });
+
+  it('sync consumers of async providers resolve through resolveAsync', async () => {
+    const c = container()
+      .addAsync('db', async () => 'pg')
+      .add('repo', (c) => `repo:${c.db}`, { deps: ['db'] })
+      .build();
+
+    expect(await c.resolveAsync('repo')).toBe('repo:pg');
+    expect(c.inspect().providers.repo.deps).toEqual(['db']);
+  });
+
+  it('fails without running the factory again on an undeclared unsettled async dep', async () => {
+    const runs = { svc: 0, repo: 0 };
+    const c = container()
+      .addAsync('db', async () => 'pg')
+      .addAsync('svc', async (c) => {
+        runs.svc++;
+        return { db: c.db };
+      })
+      .add('repo', (c) => {
+        runs.repo++;
+        return { db: c.db };
+      })
+      .build();
+
+    await expect(c.resolveAsync('svc')).rejects.toThrow(AsyncProviderError);
+    await expect(c.resolveAsync('repo')).rejects.toMatchObject({
+      details: { key: 'db', chain: ['repo'] },
+    });
+    expect(runs).toEqual({ svc: 1, repo: 1 });
+
+    await c.resolveAsync('db');
+    expect(await c.resolveAsync('svc')).toEqual({ db: 'pg' });
+    expect(runs).toEqual({ svc: 2, repo: 1 });
+  });
+
+  it('async factories can depend on other async factories', async () => {
+    const c = container()
+      .addAsync('config', async () => ({ url: 'pg://main' }))
+      .addAsync('db', async (c) => `db(${c.config.url})`, { deps: ['config'] })
+      .build();
+
+    expect(await c.resolveAsync('db')).toBe('db(pg://main)');
+    expect(c.describe('db').deps).toEqual(['config']);
+  });
+
+  it('deduplicates concurrent resolutions', async () => {
+    let count = 0;
+    const c = container()
+      .addAsync('broker', async () => {
+        await sleep(5);
+        return ++count;
+      })
+      .build();
+
+    const [a, b] = await Promise.all([c.resolveAsync('broker'), c.resolveAsync('broker')]);
+    expect(a).toBe(1);
+    expect(b).toBe(1);
+    expect(count).toBe(1);
+  });
+
+  it('wraps rejections in FactoryError and does not cache them', async () => {
+    let attempt = 0;
+    const c = container()
+      .addAsync('secrets', async () => {
+        attempt++;
+        if (attempt === 1) throw new Error('vault sealed');
+        return 'ok';
+      })
+      .build();
+
+    await expect(c.resolveAsync('secrets')).rejects.toThrow(FactoryError);
+    expect(await c.resolveAsync('secrets')).toBe('ok');
+  });
+
+  it('detects cycles between async factories', async () => {
+    const c = container()
+      .addAsync('a', async (c: any) => ({ b: c.b }))
+      .addAsync('b', async (c: any) => ({ a: c.a }))
+      .build();
+
+    await expect(c.preload()).rejects.toThrow(CircularDependencyError);
+    await expect(c.preload()).rejects.toMatchObject({ details: { cycle: 'a -> b -> a' } });
+    await expect(c.resolveAsync('a')).rejects.toThrow(AsyncProviderError);
+  });
+
+  it('detects an async factory reading itself back through a sync provider', async () => {
+    const c = container()
+      .addAsync('a', async (c: any) => ({ b: c.b }))
+      .add('b', (c: any) => ({ a: c.a }))
+      .build();
+
+    await expect(c.resolveAsync('a')).rejects.toMatchObject({
+      details: { cycle: 'a -> b -> a' },
+    });
+  });
+
+  it('preload resolves independent async factories in parallel', async () => {
+    const events: string[] = [];
+    const c = container()
+      .addAsync('db', async () => {
+        events.push('db:start');
+        await sleep(10);
+        events.push('db:end');
+        return 'db';
+      })
+      .addAsync('broker', async () => {
+        events.push('broker:start');
+        await sleep(10);
+        events.push('broker:end');
+        return 'broker';
+      })
+      .add('api', (c) => `${c.db}+${c.broker}`)
+      .build();
+
+    await c.preload();
+
+    expect(Math.max(events.indexOf('db:start'), events.indexOf('broker:start'))).toBeLessThan(
+      Math.min(events.indexOf('db:end'), events.indexOf('broker:end')),
+    );
+    expect(c.api).toBe('db+broker');
+  });
+
+  it('preload awaits onInit of async instances', async () => {
+    let ready = false;
+    const c = container()
+      .addAsync('db', async () => ({
+        async onInit() {
+          await sleep(5);
+          ready = true;
+        },
+      }))
+      .build();
+
+    await c.preload('db');
+    expect(ready).toBe(true);
+  });
+
+  it('asyncFactory() marks async providers in scope() and extend()', async () => {
+    const app = container()
+      .add('url', () => 'amqp://')
+      .build();
+
+    const extended = app.extend({
+      broker: asyncFactory(async (c: any) => `broker(${c.url})`),
+    });
+    expect(await extended.resolveAsync('broker')).toBe('broker(amqp://)');
+
+    const child = app.scope({
+      session: asyncFactory(async () => 'session'),
+    });
+    expect(() => child.session).toThrow(AsyncProviderError);
+    expect(await child.resolveAsync('session')).toBe('session');
+  });
+
+  it('resolveAsync falls back to the parent scope', async () => {
+    const app = container()
+      .addAsync('db', async () => 'pg')
+      .build();
+    const child = app.scope({ handler: (c) => `handler:${c.db}` });
+
+    expect(await child.resolveAsync('db')).toBe('pg');
+    expect(child.handler).toBe('handler:pg');
+    expect(app.db).toBe('pg');
+  });
+
+  it('awaits declared async deps before running the factory', async () => {
+    const runs = { app: 0, client: 0 };
+    const c = container()
+      .addAsync('secrets', async () => {
+        await sleep(1);
+        return { token: 't' };
+      })
+      .add(
+        'client',
+        (c) => {
+          runs.client++;
+          return { token: c.secrets.token };
+        },
+        { deps: ['secrets'] },
+      )
+      .addAsync(
+        'app',
+        async (c) => {
+          runs.app++; // e.g. opens a connection before reading its deps
+          return { token: c.client.token };
+        },
+        { deps: ['client'] },
+      )
+      .build();
+
+    expect(await c.resolveAsync('app')).toEqual({ token: 't' });
+    expect(runs).toEqual({ app: 1, client: 1 });
+  });
+});
@@ -73,4 +73,51 @@ describe('circular dependency detection', () => {
     expect(result.c).toBe(1); // same singleton
     expect(dCount).toBe(1);
   });
+
+  it('annotates each hop with its scope when the cycle spans scopes', () => {
+    const root = container()
+      .add('config', (c: any) => c.settings)
+      .add('settings', (c: any) => c.config)
+      .build();
+    const request = root.scope({ handler: (c: any) => c.config }, { name: 'request' });
+
+    try {
+      request.handler;
+      expect.fail('should have thrown');
+    } catch (e) {
+      const err = e as CircularDependencyError;
+      expect(err.details).toEqual({
+        key: 'config',
+        chain: ['handler', 'config', 'settings'],
+        cycle: 'handler (request) -> config (root) -> settings (root) -> config (root)',
+        scopes: ['request', 'root', 'root', 'root'],
+      });
+    }
+  });
+
+  it('keeps the plain cycle format within a single scope', () => {
+    const c = container()
+      .add('a', (c: any) => c.b)
+      .add('b', (c: any) => c.a)
+      .build();
+
+    try {
+      c.a;
+      expect.fail('should have thrown');
+    } catch (e) {
+      const err = e as CircularDependencyError;
+      expect(err.details.cycle).toBe('a -> b -> a');
+      expect(err.details).not.toHaveProperty('scopes');
+    }
+  });
+
+  it('lets a child override depend on a parent singleton built from the overridden key', () => {
+    const root = container()
+      .add('db', () => 'pg')
+      .add('repo', (c) => `repo(${c.db})`)
+      .build();
+    const test = root.scope({ db: (c) => `mock(${c.repo})` }, { name: 'test' });
+
+    expect(test.db).toBe('mock(repo(pg))');
+  });
 });
@@ -0,0 +1,74 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { container } from '../src/index.js';
+
+interface Logger {
+  log(msg: string): void;
+}
+
+interface AppDeps {
+  logger: Logger;
+  db: string;
+  cache: string;
+  metrics?: string;
+}
+
+const logger: Logger = { log() {} };
+
+describe('contract completeness', () => {
+  it('builds once every required contract key has a provider', () => {
+    const c = container<AppDeps>()
+      .add('logger', () => logger)
+      .add('db', () => 'pg')
+      .add('cache', (c) => `cache(${c.db})`)
+      .build();
+
+    expect(c.cache).toBe('cache(pg)');
+  });
+
+  it('rejects build() while contract keys are missing', () => {
+    const partial = container<AppDeps>().add('logger', () => logger);
+
+    // @ts-expect-error — 'db' and 'cache' have no provider
+    expect(() => partial.build()).not.toThrow();
+  });
+
+  it('names the missing keys in the type error', () => {
+    const partial = container<AppDeps>()
+      .add('logger', () => logger)
+      .add('db', () => 'pg');
+
+    type BuildThis = ThisParameterType<typeof partial.build>;
+    expectTypeOf<BuildThis>().toEqualTypeOf<{ 'Missing providers for contract keys': 'cache' }>();
+  });
+
+  it('counts aliases and lets optional keys stay unregistered', () => {
+    interface Deps {
+      logger: Logger;
+      ILogger: Logger;
+      tracer?: string;
+    }
+    const c = container<Deps>()
+      .add('logger', () => logger)
+      .alias('ILogger', 'logger')
+      .build();
+
+    expect(c.ILogger).toBe(c.logger);
+  });
+
+  it('buildPartial() builds an incomplete contract', () => {
+    const c = container<AppDeps>()
+      .add('db', () => 'pg')
+      .buildPartial();
+
+    expectTypeOf(c).not.toHaveProperty('cache');
+    expect(c.db).toBe('pg');
+  });
+
+  it('does not apply in free mode', () => {
+    const c = container()
+      .add('db', () => 'pg')
+      .build();
+
+    expect(c.db).toBe('pg');
+  });
+});
@@ -28,4 +28,30 @@ describe('CycleDetector', () => {
     expect(detector.isResolving('b')).toBe(true);
     detector.leave('b');
   });
+
+  it('tracks the same key separately per owner', () => {
+    const detector = new CycleDetector();
+    const parent = {};
+    const child = {};
+    detector.enter('db', child);
+    expect(detector.isResolving('db', child)).toBe(true);
+    expect(detector.isResolving('db', parent)).toBe(false);
+    detector.enter('db', parent);
+    detector.leave('db', child);
+    expect(detector.isResolving('db', parent)).toBe(true);
+    expect(detector.isResolving('db', child)).toBe(false);
+  });
+
+  it('exposes the hops in progress with their owners', () => {
+    const detector = new CycleDetector();
+    const owner = {};
+    detector.enter('a');
+    detector.enter('b', owner);
+    expect(detector.path()).toEqual([
+      { key: 'a', owner: undefined },
+      { key: 'b', owner },
+    ]);
+    detector.leave('b', owner);
+    expect(detector.path()).toEqual([{ key: 'a', owner: undefined }]);
+  });
 });
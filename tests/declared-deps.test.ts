@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CircularDependencyError,
+  container,
+  DepsMismatchWarning,
+  ProviderNotFoundError,
+} from '../src/index.js';
+
+describe('declared deps', () => {
+  it('seeds the graph before resolution', () => {
+    const c = container()
+      .add('config', () => ({ url: 'pg://' }))
+      .add('logger', () => ({ log() {} }))
+      .add('db', (c) => ({ url: c.config.url, logger: c.logger }), { deps: ['config', 'logger'] })
+      .build();
+
+    expect(c.inspect().providers.db).toEqual({
+      key: 'db',
+      resolved: false,
+      deps: ['config', 'logger'],
+      scope: 'singleton',
+    });
+    expect(c.describe('config').deps).toEqual([]);
+
+    c.db;
+    expect(c.describe('db')).toMatchObject({ resolved: true, deps: ['config', 'logger'] });
+    expect(c.health().warnings).toEqual([]);
+  });
+
+  it('warns when the factory reads different deps than declared', () => {
+    const c = container()
+      .add('config', () => 'cfg')
+      .add('logger', () => 'log')
+      .add('db', (c) => [c.config, c.logger], { deps: ['config'] })
+      .build();
+
+    c.db;
+    const warnings = c.health().warnings;
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({
+      type: 'deps_mismatch',
+      details: { key: 'db', declared: ['config'], tracked: ['config', 'logger'] },
+    });
+    expect(c.describe('db').deps).toEqual(['config', 'logger']);
+  });
+
+  it('does not count reads made by decorators against the declaration', () => {
+    const c = container()
+      .add('logger', () => 'L')
+      .add('svc', () => 'S', { deps: [] })
+      .decorate('svc', (inner, c) => inner + c.logger)
+      .build();
+
+    expect(c.svc).toBe('SL');
+    expect(c.health().warnings).toEqual([]);
+    expect(c.describe('svc').deps).toEqual(['logger']);
+  });
+
+  it('warns once for a transient provider', () => {
+    const c = container()
+      .add('config', () => 'cfg')
+      .addTransient('request', () => ({}), { deps: ['config'] })
+      .build();
+
+    c.request;
+    c.request;
+    expect(c.health().warnings).toHaveLength(1);
+    expect(c.health().warnings[0].type).toBe('deps_mismatch');
+  });
+
+  it('clears the mismatch warning on reset()', () => {
+    const c = container()
+      .add('config', () => 'cfg')
+      .add('db', () => 'pg', { deps: ['config'] })
+      .build();
+
+    c.db;
+    expect(c.health().warnings).toHaveLength(1);
+    c.reset('db');
+    expect(c.health().warnings).toEqual([]);
+  });
+
+  it('throws ProviderNotFoundError at build() for an unregistered declared dep', () => {
+    const builder = container()
+      .add('config', () => 'cfg')
+      .add('db', () => 'pg', { deps: ['confg' as 'config'] });
+
+    expect(() => builder.build()).toThrow(ProviderNotFoundError);
+    try {
+      builder.build();
+    } catch (e) {
+      const err = e as ProviderNotFoundError;
+      expect(err.details).toMatchObject({ key: 'confg', chain: ['db'], suggestion: 'config' });
+    }
+  });
+
+  it('throws CircularDependencyError at build() for a declared cycle', () => {
+    const builder = container()
+      .add('a', () => 'a', { deps: ['b' as never] })
+      .add('b', () => 'b', { deps: ['c' as never] })
+      .add('c', () => 'c', { deps: ['a'] });
+
+    expect(() => builder.build()).toThrow(CircularDependencyError);
+    try {
+      builder.build();
+    } catch (e) {
+      expect((e as CircularDependencyError).details.cycle).toBe('a -> b -> c -> a');
+    }
+  });
+
+  it('follows aliases when looking for cycles', () => {
+    const builder = container()
+      .add('a', () => 'a', { deps: ['b' as never] })
+      .alias('b', 'a');
+
+    expect(() => builder.build()).toThrow(CircularDependencyError);
+  });
+
+  it('validates declarations added through module()', () => {
+    const app = container()
+      .add('config', () => 'cfg')
+      .build();
+
+    expect(() =>
+      app.module((b) => b.add('db', () => 'pg', { deps: ['cache' as 'config'] })),
+    ).toThrow(ProviderNotFoundError);
+    expect(app.module((b) => b.add('db', (c) => c.config, { deps: ['config'] })).db).toBe('cfg');
+  });
+
+  it('rejects unknown keys at the type level', () => {
+    container()
+      .add('config', () => 'cfg')
+      // @ts-expect-error — 'cache' is not registered
+      .add('db', () => 'pg', { deps: ['cache'] });
+  });
+
+  it('exposes DepsMismatchWarning with a hint', () => {
+    const warning = new DepsMismatchWarning('db', ['config'], ['config', 'logger']);
+    expect(warning.message).toBe("'db' declares deps [config] but read [config, logger].");
+    expect(warning.hint).toBe("Update the declaration: { deps: ['config', 'logger'] }");
+  });
+});
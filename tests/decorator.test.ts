@@ -0,0 +1,226 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import type { ContainerBuilder } from '../src/index.js';
+import { container, decorator, ProviderNotFoundError } from '../src/index.js';
+
+interface UserRepo {
+  find(id: number): string;
+}
+
+class PgUserRepo implements UserRepo {
+  find(id: number) {
+    return `user:${id}`;
+  }
+}
+
+class CachingUserRepo implements UserRepo {
+  constructor(
+    readonly inner: UserRepo,
+    readonly cache: Map<number, string>,
+  ) {}
+  find(id: number) {
+    const hit = this.cache.get(id);
+    if (hit) return hit;
+    const value = this.inner.find(id);
+    this.cache.set(id, value);
+    return value;
+  }
+}
+
+interface Db {
+  id: number;
+  layers: string[];
+}
+
+describe('decorators', () => {
+  it('wraps a previously registered provider', () => {
+    const c = container()
+      .add('cache', () => new Map<number, string>())
+      .add('userRepo', (): UserRepo => new PgUserRepo())
+      .decorate('userRepo', (inner, c) => new CachingUserRepo(inner, c.cache))
+      .build();
+
+    expect(c.userRepo).toBeInstanceOf(CachingUserRepo);
+    expect((c.userRepo as CachingUserRepo).inner).toBeInstanceOf(PgUserRepo);
+    expect(c.userRepo).toBe(c.userRepo);
+    expectTypeOf<typeof c.userRepo>().toEqualTypeOf<UserRepo>();
+  });
+
+  it('stacks decorators in registration order', () => {
+    const c = container()
+      .add('greeting', () => 'hello')
+      .decorate('greeting', (inner) => `${inner} world`)
+      .decorate('greeting', (inner) => inner.toUpperCase())
+      .build();
+
+    expect(c.greeting).toBe('HELLO WORLD');
+  });
+
+  it('records decorator deps and shows decorators in describe()', () => {
+    const audit = (inner: string, c: { prefix: string }) => `${c.prefix}:${inner}`;
+    const c = container()
+      .add('prefix', () => 'audited')
+      .add('db', () => 'pg')
+      .add('repo', (c) => `repo(${c.db})`)
+      .decorate('repo', audit)
+      .decorate('repo', (inner) => inner)
+      .build();
+
+    expect(c.repo).toBe('audited:repo(pg)');
+    expect(c.describe('repo')).toMatchObject({
+      deps: ['db', 'prefix'],
+      decorators: ['audit', 'anonymous'],
+    });
+    expect(c.describe('db').decorators).toBeUndefined();
+  });
+
+  it('keeps the lifetime of the decorated provider', () => {
+    let count = 0;
+    const c = container()
+      .addTransient('requestId', () => ++count)
+      .decorate('requestId', (inner) => inner * 10)
+      .build();
+
+    expect(c.requestId).toBe(10);
+    expect(c.requestId).toBe(20);
+    expect(c.describe('requestId').scope).toBe('transient');
+  });
+
+  it('decorates async providers once settled', async () => {
+    const c = container()
+      .addAsync('db', async () => ({ url: 'pg' }))
+      .decorate('db', (inner) => ({ ...inner, pooled: true }))
+      .build();
+
+    expect(await c.resolveAsync('db')).toEqual({ url: 'pg', pooled: true });
+  });
+
+  it('decorates a multi-binding as a whole', () => {
+    const c = container()
+      .addToSet('routes', () => '/users')
+      .decorate('routes', (inner) => inner.map((r) => `/v1${r}`))
+      .addToSet('routes', () => '/health')
+      .build();
+
+    expect(c.routes).toEqual(['/v1/users', '/v1/health']);
+  });
+
+  it.each([
+    false,
+    true,
+  ])('applies a decorator registered before its provider (strict: %s)', (strict) => {
+    // e.g. a module decorating a key another module provides later
+    const builder = container({ strict }) as unknown as ContainerBuilder<
+      Record<string, unknown>,
+      { svc: string },
+      'container'
+    >;
+    const c = builder
+      .decorate('svc', (inner) => `${inner}-decorated`)
+      .add('svc', () => 'base')
+      .build();
+
+    expect(c.svc).toBe('base-decorated');
+    expect(c.describe('svc').decorators).toHaveLength(1);
+  });
+
+  it('throws at build() when the target is not registered', () => {
+    const builder = container()
+      .add('userRepo', () => new PgUserRepo())
+      .addModule((b) => b.decorate('userRepos' as 'userRepo', (inner) => inner));
+
+    expect(() => builder.build()).toThrow(ProviderNotFoundError);
+    try {
+      builder.build();
+    } catch (e) {
+      expect((e as ProviderNotFoundError).details).toMatchObject({
+        key: 'userRepos',
+        suggestion: 'userRepo',
+        registered: ['userRepo'],
+      });
+    }
+  });
+
+  describe('after build', () => {
+    it('module() decorates providers of the container', () => {
+      const app = container()
+        .add('greeting', () => 'hello')
+        .build();
+
+      const decorated = app.module((b) => b.decorate('greeting', (inner) => `${inner}!`));
+      expect(decorated.greeting).toBe('hello!');
+      expect(app.greeting).toBe('hello');
+    });
+
+    it('extend() wraps the existing instance instead of re-creating it', () => {
+      let count = 0;
+      const app = container()
+        .add('db', (): Db => ({ id: ++count, layers: [] }))
+        .decorate('db', (inner) => ({ ...inner, layers: [...inner.layers, 'first'] }))
+        .build();
+      app.db;
+
+      const extended = app.extend({
+        db: decorator((inner: Db) => ({ ...inner, layers: [...inner.layers, 'second'] })),
+      });
+
+      expect(extended.db).toEqual({ id: 1, layers: ['first', 'second'] });
+      expect(count).toBe(1);
+      expect(extended.describe('db').decorators).toEqual(['anonymous', 'anonymous']);
+    });
+
+    it('extend() throws when the target is not registered', () => {
+      const app = container()
+        .add('db', () => 'pg')
+        .build();
+
+      expect(() => app.extend({ dbs: decorator((inner) => inner) })).toThrow(ProviderNotFoundError);
+    });
+
+    it('scope() decorates a parent singleton for that scope only', () => {
+      let count = 0;
+      const app = container()
+        .add('tenant', () => 'root')
+        .add('db', (): Db => ({ id: ++count, layers: [] }))
+        .build();
+
+      const request = app.scope({
+        tenant: () => 'acme',
+        db: decorator((inner: Db, c) => ({ ...inner, layers: [`tenant:${c.tenant}`] })),
+      });
+
+      expect(request.db).toEqual({ id: 1, layers: ['tenant:acme'] });
+      expect(request.db).toBe(request.db);
+      expect(app.db).toEqual({ id: 1, layers: [] });
+      expect(count).toBe(1);
+      expect(request.describe('db').deps).toEqual(['tenant']);
+    });
+
+    it('scope() re-runs scoped providers with every decorator', () => {
+      const app = container()
+        .add('tenant', () => 'root')
+        .addScoped('uow', (c) => `uow(${c.tenant})`)
+        .decorate('uow', (inner) => `[${inner}]`)
+        .build();
+
+      const request = app.scope({
+        tenant: () => 'acme',
+        uow: decorator((inner: string) => `${inner}!`),
+      });
+
+      expect(request.uow).toBe('[uow(acme)]!');
+    });
+
+    it('scope() decorates a parent multi-binding', () => {
+      const app = container()
+        .addToSet('routes', () => '/users')
+        .build();
+
+      const request = app.scope({
+        routes: decorator((inner: string[]) => [...inner, '/debug']),
+      });
+
+      expect(request.routes).toEqual(['/users', '/debug']);
+      expect(app.routes).toEqual(['/users']);
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { container, defineModule, type ModuleBuilder, ModuleError } from '../src/index.js';
+
+interface Logger {
+  log(msg: string): void;
+}
+
+interface Config {
+  dbUrl: string;
+}
+
+const logger: Logger = { log() {} };
+
+const dbModule = defineModule({
+  name: 'db',
+  requires: ['config', 'logger'],
+  provides: (b: ModuleBuilder<{ config: Config; logger: Logger }>) =>
+    b
+      .add('db', (c) => ({ url: c.config.dbUrl, logger: c.logger }))
+      .add('migrations', (c) => [c.db.url]),
+});
+
+describe('defineModule()', () => {
+  it('registers its providers on a host that meets its requirements', () => {
+    const c = container()
+      .add('config', (): Config => ({ dbUrl: 'pg://' }))
+      .add('logger', () => logger)
+      .addModule(dbModule)
+      .build();
+
+    expect(c.db.url).toBe('pg://');
+    expect(c.migrations).toEqual(['pg://']);
+    expectTypeOf(c.db).toEqualTypeOf<{ url: string; logger: Logger }>();
+  });
+
+  it('reports the module name in inspect() for every provider it registers', () => {
+    const c = container()
+      .add('config', (): Config => ({ dbUrl: 'pg://' }))
+      .add('logger', () => logger)
+      .addModule(dbModule)
+      .build();
+
+    const { providers } = c.inspect();
+    expect(providers.db.module).toBe('db');
+    expect(providers.migrations.module).toBe('db');
+    expect(providers.config).not.toHaveProperty('module');
+  });
+
+  it('rejects a host missing a requirement, at the type level and at runtime', () => {
+    const host = container().add('config', (): Config => ({ dbUrl: 'pg://' }));
+
+    // @ts-expect-error — 'logger' is not registered
+    expect(() => host.addModule(dbModule)).toThrow(ModuleError);
+    try {
+      // @ts-expect-error — 'logger' is not registered
+      host.addModule(dbModule);
+    } catch (e) {
+      const err = e as ModuleError;
+      expect(err.message).toBe("Module 'db' requires 'logger', which is not registered.");
+      expect(err.details).toEqual({
+        module: 'db',
+        reason: 'missing_requirement',
+        missing: ['logger'],
+      });
+      expect(err.hint).toContain(".add('logger', (c) => ...)");
+    }
+  });
+
+  it('rejects a requirement registered with an incompatible type', () => {
+    container()
+      .add('config', () => ({ dbUrl: 42 }))
+      .add('logger', () => logger)
+      // @ts-expect-error — 'config' has the wrong type
+      .addModule(dbModule);
+  });
+
+  it('applies dependencies first and provides their keys', () => {
+    const loggerModule = defineModule({
+      name: 'logger',
+      provides: (b: ModuleBuilder) => b.add('logger', () => logger),
+    });
+    const storage = defineModule({
+      name: 'storage',
+      requires: ['config', 'logger'],
+      dependsOn: [loggerModule],
+      provides: (b: ModuleBuilder<{ config: Config; logger: Logger }>) =>
+        b.add('storage', (c) => `${c.config.dbUrl}/files`),
+    });
+
+    const c = container()
+      .add('config', (): Config => ({ dbUrl: 'pg://' }))
+      .addModule(storage)
+      .build();
+
+    expect(c.storage).toBe('pg:///files');
+    expect(c.logger).toBe(logger);
+    expect(c.describe('logger').module).toBe('logger');
+    expect(c.describe('storage').module).toBe('storage');
+  });
+
+  it('applies a shared dependency only once', () => {
+    let applied = 0;
+    const shared = defineModule({
+      name: 'shared',
+      provides: (b: ModuleBuilder) => {
+        applied++;
+        return b.add('clock', () => 0);
+      },
+    });
+    const a = defineModule({
+      name: 'a',
+      dependsOn: [shared],
+      provides: (b: ModuleBuilder) => b.add('a', () => 'a'),
+    });
+    const b = defineModule({
+      name: 'b',
+      dependsOn: [shared],
+      provides: (b: ModuleBuilder) => b.add('b', () => 'b'),
+    });
+
+    const c = container({ strict: true }).addModule(a).addModule(b).addModule(shared).build();
+
+    expect(applied).toBe(1);
+    expect([c.a, c.b, c.clock]).toEqual(['a', 'b', 0]);
+  });
+
+  it('throws ModuleError when another module with the same name was applied', () => {
+    const first = defineModule({
+      name: 'cache',
+      provides: (b: ModuleBuilder) => b.add('x', () => 1),
+    });
+    const second = defineModule({
+      name: 'cache',
+      provides: (b: ModuleBuilder) => b.add('y', () => 2),
+    });
+
+    const builder = container().addModule(first);
+    expect(() => builder.addModule(second)).toThrow(ModuleError);
+    try {
+      builder.addModule(second);
+    } catch (e) {
+      expect((e as ModuleError).details.reason).toBe('duplicate_name');
+    }
+  });
+
+  it('keeps accepting plain function modules', () => {
+    const c = container()
+      .add('config', (): Config => ({ dbUrl: 'pg://' }))
+      .addModule((b) => b.add('url', (c) => c.config.dbUrl))
+      .build();
+
+    expect(c.url).toBe('pg://');
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import { DependencyTracker } from '../src/infrastructure/dependency-tracker.js';
+import { lazy } from '../src/infrastructure/lazy.js';
+import { optional } from '../src/infrastructure/optional.js';
 
 describe('DependencyTracker', () => {
   it('records deps via tracking proxy', () => {
@@ -18,6 +20,33 @@ describe('DependencyTracker', () => {
     expect(deps).toEqual(['db', 'logger']);
   });
 
+  it('records optional and lazy access as separate edges', () => {
+    const tracker = new DependencyTracker();
+    const deps: string[] = [];
+    const edges = { optional: [] as string[], lazy: [] as string[] };
+    const proxy = tracker.createTrackingProxy(
+      deps,
+      [],
+      (key) => `${key}-instance`,
+      edges,
+      (key) => key === 'metrics',
+    );
+
+    expect(optional(proxy as object, 'metrics')).toBe('metrics-instance');
+    expect(optional(proxy as object, 'tracer')).toBeUndefined();
+    const bus = lazy(proxy as object, 'bus');
+    expect(edges).toEqual({ optional: ['metrics', 'tracer'], lazy: ['bus'] });
+    expect(bus()).toBe('bus-instance');
+    expect(deps).toEqual([]);
+
+    tracker.recordDeps('service', deps, edges);
+    expect(tracker.getOptionalDepGraph().get('service')).toEqual(['metrics', 'tracer']);
+    expect(tracker.getLazyDepGraph().get('service')).toEqual(['bus']);
+    tracker.clearDepGraph('service');
+    expect(tracker.getOptionalDepGraph().has('service')).toBe(false);
+    expect(tracker.getLazyDepGraph().has('service')).toBe(false);
+  });
+
   it('stores and retrieves dependency graph', () => {
     const tracker = new DependencyTracker();
 
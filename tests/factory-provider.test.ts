@@ -0,0 +1,103 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { container, lazy, optional } from '../src/index.js';
+
+class UserSession {
+  constructor(
+    readonly userId: string,
+    readonly db: string,
+  ) {}
+}
+
+describe('factory providers (addFactory)', () => {
+  it('resolves to a typed function taking runtime arguments', () => {
+    const c = container()
+      .add('db', () => 'pg')
+      .addFactory('sessionFor', (c) => (userId: string) => new UserSession(userId, c.db))
+      .build();
+
+    expectTypeOf<typeof c.sessionFor>().toEqualTypeOf<(userId: string) => UserSession>();
+    const session = c.sessionFor('u-42');
+    expect(session).toBeInstanceOf(UserSession);
+    expect(session).toEqual({ userId: 'u-42', db: 'pg' });
+    expect(c.sessionFor('u-1')).not.toBe(session);
+    expect(c.sessionFor).toBe(c.sessionFor);
+  });
+
+  it('tracks deps read inside the produced function', () => {
+    const c = container()
+      .add('db', () => 'pg')
+      .add('clock', () => () => 0)
+      .addFactory('sessionFor', (c) => (userId: string) => new UserSession(userId, c.db))
+      .build();
+
+    const sessionFor = c.sessionFor;
+    expect(c.describe('sessionFor').deps).toEqual([]);
+
+    sessionFor('a');
+    sessionFor('b');
+    expect(c.describe('sessionFor').deps).toEqual(['db']);
+    expect(c.inspect().providers.db.resolved).toBe(true);
+  });
+
+  it('tracks optional and lazy reads inside the produced function, once each', () => {
+    const c = container()
+      .add('db', () => 'pg')
+      .addFactory('make', (c) => (id: string) => ({
+        id,
+        metrics: optional(c, 'metrics'),
+        db: lazy(c, 'db'),
+      }))
+      .build();
+
+    const make = c.make;
+    expect(c.describe('make')).not.toHaveProperty('optionalDeps');
+
+    for (const id of ['a', 'b', 'c', 'd', 'e']) make(id);
+    expect(c.describe('make')).toMatchObject({ optionalDeps: ['metrics'], lazyDeps: ['db'] });
+  });
+
+  it('reports kind and arity in describe()', () => {
+    const c = container()
+      .addFactory('pair', () => (a: string, b: number) => `${a}${b}`)
+      .add('plain', () => 1)
+      .build();
+
+    expect(c.describe('pair')).toEqual({
+      key: 'pair',
+      resolved: false,
+      deps: [],
+      kind: 'factory',
+      scope: 'singleton',
+    });
+
+    c.pair;
+    expect(c.describe('pair')).toMatchObject({ kind: 'factory', arity: 2 });
+    expect(c.describe('plain')).not.toHaveProperty('kind');
+  });
+
+  it('constrains the produced function in contract mode', () => {
+    interface Deps {
+      sessionFor: (userId: string) => UserSession;
+    }
+    const c = container<Deps>()
+      .addFactory('sessionFor', () => (userId: string) => new UserSession(userId, 'pg'))
+      .build();
+
+    expect(c.sessionFor('x').userId).toBe('x');
+
+    container<Deps>()
+      // @ts-expect-error — returns a number, not a UserSession
+      .addFactory('sessionFor', () => (userId: string) => userId.length);
+  });
+
+  it('reads deps from the container that created the function, like any singleton', () => {
+    const app = container()
+      .add('db', () => 'pg')
+      .addFactory('sessionFor', (c) => (userId: string) => new UserSession(userId, c.db))
+      .build();
+
+    expect(app.sessionFor('u').db).toBe('pg');
+    const request = app.scope({ db: () => 'tenant-db' });
+    expect(request.sessionFor('u').db).toBe('pg');
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest';
+import type { ResolutionInterceptor } from '../src/index.js';
+import { AsyncProviderError, container, FactoryError } from '../src/index.js';
+
+function recorder() {
+  const events: string[] = [];
+  const interceptor: ResolutionInterceptor = {
+    beforeResolve: (key) => events.push(`before:${key}`),
+    afterResolve: (key) => {
+      events.push(`after:${key}`);
+    },
+    onError: (key) => events.push(`error:${key}`),
+  };
+  return { events, interceptor };
+}
+
+describe('use', () => {
+  it('runs around the resolution of each provider and its deps', () => {
+    const { events, interceptor } = recorder();
+    const c = container()
+      .use(interceptor)
+      .add('config', () => ({ url: 'pg://' }))
+      .add('db', (c) => ({ url: c.config.url }))
+      .build();
+
+    c.db;
+    c.db;
+    expect(events).toEqual(['before:db', 'before:config', 'after:config', 'after:db']);
+  });
+
+  it('runs on every resolution of a transient', () => {
+    const { events, interceptor } = recorder();
+    let id = 0;
+    const c = container()
+      .use(interceptor)
+      .addTransient('requestId', () => ++id)
+      .build();
+
+    c.requestId;
+    c.requestId;
+    expect(events).toEqual([
+      'before:requestId',
+      'after:requestId',
+      'before:requestId',
+      'after:requestId',
+    ]);
+  });
+
+  it('lets afterResolve replace the instance, in registration order', () => {
+    const c = container()
+      .use({ afterResolve: (_key, instance) => Object.freeze(instance) })
+      .use({ afterResolve: (key, instance) => (key === 'tag' ? `[${instance}]` : undefined) })
+      .add('settings', () => ({ debug: false }))
+      .add('tag', () => 'v1')
+      .build();
+
+    expect(Object.isFrozen(c.settings)).toBe(true);
+    expect(c.tag).toBe('[v1]');
+    expect(c.describe('tag').resolved).toBe(true);
+  });
+
+  it('reports failures to onError with the error thrown to the caller', () => {
+    const errors: [string, unknown][] = [];
+    const c = container()
+      .use({ onError: (key, error) => errors.push([key, error]) })
+      .add('db', () => {
+        throw new Error('connection refused');
+      })
+      .add('repo', (c) => ({ db: c.db }))
+      .build();
+
+    expect(() => c.repo).toThrow(FactoryError);
+    expect(errors.map(([key]) => key)).toEqual(['db', 'repo']);
+    expect(errors[0][1]).toBeInstanceOf(FactoryError);
+    expect(errors[1][1]).toBe(errors[0][1]);
+  });
+
+  it('hands the resolution context to every hook', () => {
+    const seen: unknown[] = [];
+    const c = container()
+      .use({
+        beforeResolve: (_key, ctx) => seen.push({ key: ctx.key, chain: ctx.chain, tags: ctx.tags }),
+      })
+      .add('db', () => 'pg', { tags: ['infra'] })
+      .add('repo', (c) => `repo(${c.db})`)
+      .build();
+
+    c.repo;
+    expect(seen).toEqual([
+      { key: 'repo', chain: [], tags: [] },
+      { key: 'db', chain: ['repo'], tags: ['infra'] },
+    ]);
+  });
+
+  it('records custom warnings in health() until reset()', () => {
+    const c = container()
+      .use({
+        afterResolve(key, instance, ctx) {
+          if (typeof instance !== 'object') {
+            ctx.warn(`'${key}' is not an object.`, { kind: typeof instance });
+          }
+        },
+      })
+      .add('port', () => 3000)
+      .add('server', () => ({ listen() {} }))
+      .build();
+
+    c.port;
+    c.server;
+    expect(c.health().warnings).toEqual([
+      {
+        type: 'custom',
+        message: "'port' is not an object.",
+        details: { kind: 'number', key: 'port' },
+      },
+    ]);
+
+    c.reset('port');
+    expect(c.health().warnings).toEqual([]);
+  });
+
+  it('is inherited by scope(), extend() and merged builders', () => {
+    const { events, interceptor } = recorder();
+    const base = container()
+      .use(interceptor)
+      .add('db', () => 'pg');
+    const app = container()
+      .add('logger', () => 'log')
+      .merge(base)
+      .build();
+
+    app.scope({ handler: (c) => `${c.db}` }).handler;
+    app.extend({ job: () => 'job' }).job;
+    app.logger;
+    expect(events).toEqual([
+      'before:handler',
+      'before:db',
+      'after:db',
+      'after:handler',
+      'before:job',
+      'after:job',
+      'before:logger',
+      'after:logger',
+    ]);
+  });
+
+  it('runs around async providers', async () => {
+    const { events, interceptor } = recorder();
+    const c = container()
+      .use(interceptor)
+      .addAsync('db', async () => 'pg')
+      .build();
+
+    await c.resolveAsync('db');
+    expect(events).toEqual(['before:db', 'after:db']);
+  });
+
+  it('runs once per provider when resolveAsync() awaits an async dep', async () => {
+    const { events, interceptor } = recorder();
+    const c = container()
+      .use(interceptor)
+      .addAsync('db', async () => 'pg')
+      .add('repo', (c) => `repo(${c.db})`, { deps: ['db'] })
+      .addAsync('service', async (c) => `service(${c.repo})`, { deps: ['repo'] })
+      .build();
+
+    expect(await c.resolveAsync('service')).toBe('service(repo(pg))');
+    expect(events).toEqual([
+      'before:db',
+      'after:db',
+      'before:service',
+      'before:repo',
+      'after:repo',
+      'after:service',
+    ]);
+  });
+
+  it('reports an unsettled async dep once, as the failure the caller gets', async () => {
+    const { events, interceptor } = recorder();
+    const c = container()
+      .use(interceptor)
+      .addAsync('db', async () => 'pg')
+      .addAsync('repo', async (c) => `repo(${c.db})`)
+      .build();
+
+    await expect(c.resolveAsync('repo')).rejects.toThrow(AsyncProviderError);
+    expect(events).toEqual(['before:repo', 'error:repo']);
+  });
+});
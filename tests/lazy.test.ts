@@ -0,0 +1,109 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { CircularDependencyError, container, lazy } from '../src/index.js';
+
+class UserService {
+  constructor(readonly bus: EventBus) {}
+}
+
+class EventBus {
+  constructor(readonly users: () => UserService) {}
+}
+
+describe('lazy dependencies', () => {
+  it('breaks a legitimate cycle', () => {
+    const c = container()
+      .add('eventBus', (c) => new EventBus(lazy<UserService>(c, 'userService')))
+      .add('userService', (c) => new UserService(c.eventBus))
+      .build();
+
+    expect(c.userService.bus).toBe(c.eventBus);
+    expect(c.eventBus.users()).toBe(c.userService);
+  });
+
+  it('does not resolve the target at construction time', () => {
+    let created = 0;
+    const c = container()
+      .add('heavy', () => ({ id: ++created }))
+      .add('service', (c) => ({ heavy: lazy(c, 'heavy') }))
+      .build();
+
+    const handle = c.service.heavy;
+    expectTypeOf(handle).toEqualTypeOf<() => { id: number }>();
+    expect(created).toBe(0);
+    expect(handle()).toBe(c.heavy);
+    expect(created).toBe(1);
+  });
+
+  it('throws CircularDependencyError when invoked during the cycle', () => {
+    const c = container()
+      .add('eventBus', (c) => {
+        const users = lazy<UserService>(c, 'userService');
+        users();
+        return new EventBus(users);
+      })
+      .add('userService', (c) => new UserService(c.eventBus))
+      .build();
+
+    expect(() => c.userService).toThrow(CircularDependencyError);
+    try {
+      c.eventBus;
+    } catch (e) {
+      expect((e as CircularDependencyError).hint).toContain("lazy(c, 'eventBus')");
+    }
+  });
+
+  it('records lazy edges separately in inspect()', () => {
+    const c = container()
+      .add('eventBus', (c) => new EventBus(lazy<UserService>(c, 'userService')))
+      .add('userService', (c) => new UserService(c.eventBus))
+      .build();
+
+    c.userService;
+    expect(c.describe('eventBus')).toMatchObject({ deps: [], lazyDeps: ['userService'] });
+    expect(c.describe('userService').deps).toEqual(['eventBus']);
+    expect(c.describe('userService')).not.toHaveProperty('lazyDeps');
+  });
+
+  it('records each lazy edge once', () => {
+    const c = container()
+      .add('config', () => 'cfg')
+      .add('service', (c) => [lazy(c, 'config'), lazy(c, 'config')])
+      .build();
+
+    c.service;
+    expect(c.describe('service').lazyDeps).toEqual(['config']);
+  });
+
+  it('is not an ordering constraint for preload()', async () => {
+    const order: string[] = [];
+    const c = container()
+      .add('eventBus', (c) => ({
+        users: lazy(c as { userService: unknown }, 'userService'),
+        onInit() {
+          order.push('eventBus');
+        },
+      }))
+      .add('userService', (c) => ({
+        bus: c.eventBus,
+        onInit() {
+          order.push('userService');
+        },
+      }))
+      .build();
+
+    await c.preload();
+    expect(order).toEqual(['eventBus', 'userService']);
+  });
+
+  it('resolves from the requesting scope', () => {
+    const app = container()
+      .add('tenant', () => 'root')
+      .build();
+
+    const request = app.scope({
+      tenant: () => 'acme',
+      greeter: (c) => lazy(c, 'tenant'),
+    });
+    expect(request.greeter()).toBe('acme');
+  });
+});
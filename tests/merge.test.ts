@@ -0,0 +1,107 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { container, decorator, MergeConflictError, mergeBuilders } from '../src/index.js';
+
+describe('merging builders', () => {
+  it('unions registrations with accumulated types', () => {
+    const billing = container({ name: 'billing' })
+      .add('db', () => 'pg')
+      .add('invoices', (c) => ({ db: c.db }));
+    const users = container({ name: 'users' }).add('userRepo', () => ({ id: 1 }));
+
+    const app = billing
+      .merge(users)
+      .add('report', (c) => [c.invoices.db, c.userRepo.id] as const)
+      .build();
+
+    expectTypeOf<typeof app.userRepo>().toEqualTypeOf<{ id: number }>();
+    expect(app.report).toEqual(['pg', 1]);
+  });
+
+  it('throws MergeConflictError naming the builders of each conflicting key', () => {
+    const billing = container({ name: 'billing' })
+      .add('db', () => 'billing-db')
+      .add('logger', () => 'billing-logger');
+    const users = container({ name: 'users' })
+      .add('db', () => 'users-db')
+      .add('logger', () => 'users-logger')
+      .add('userRepo', () => 'repo');
+
+    expect(() => billing.merge(users)).toThrow(MergeConflictError);
+    try {
+      billing.merge(users);
+    } catch (e) {
+      const err = e as MergeConflictError;
+      expect(err.details.conflicts).toEqual([
+        { key: 'db', builders: ['billing', 'users'] },
+        { key: 'logger', builders: ['billing', 'users'] },
+      ]);
+      expect(err.message).toContain("'db', 'logger' are registered more than once");
+      expect(err.hint).toContain("onConflict: 'last-wins'");
+    }
+    expect(billing._toRecord()).not.toHaveProperty('userRepo');
+  });
+
+  it('applies first-wins and last-wins policies', () => {
+    const a = () => container({ name: 'a' }).add('db', () => 'a-db');
+    const b = () =>
+      container({ name: 'b' })
+        .add('db', () => 'b-db')
+        .add('cache', () => 'b-cache');
+
+    const first = a().merge(b(), { onConflict: 'first-wins' }).build();
+    const last = a().merge(b(), { onConflict: 'last-wins' }).build();
+
+    expect([first.db, first.cache]).toEqual(['a-db', 'b-cache']);
+    expect([last.db, last.cache]).toEqual(['b-db', 'b-cache']);
+  });
+
+  it('appends multi-binding contributions and applies cross-builder decorators', () => {
+    const billing = container({ name: 'billing' })
+      .add('db', () => 'pg')
+      .addToSet('routes', () => '/invoices');
+    const users = container({ name: 'users' })
+      .addToSet('routes', () => '/users')
+      .add(
+        'db',
+        decorator((inner: string) => `${inner}+pool`),
+      );
+
+    const app = billing.merge(users).build();
+    expect(app.routes).toEqual(['/invoices', '/users']);
+    expect(app.db).toBe('pg+pool');
+  });
+
+  it('keeps the originating builder name across successive merges', () => {
+    const billing = container({ name: 'billing' }).add('db', () => 'pg');
+    const users = container({ name: 'users' }).add('userRepo', () => 'repo');
+    const audit = container({ name: 'audit' }).add('db', () => 'audit-db');
+
+    try {
+      container().merge(billing).merge(users).merge(audit);
+      expect.unreachable();
+    } catch (e) {
+      expect((e as MergeConflictError).details.conflicts).toEqual([
+        { key: 'db', builders: ['billing', 'audit'] },
+      ]);
+    }
+  });
+
+  it('mergeBuilders() combines many builders without mutating them', () => {
+    const a = container({ name: 'a' }).add('one', () => 1);
+    const b = container({ name: 'b' }).add('two', () => 2);
+    const c = container({ name: 'c' }).add('three', () => 3);
+
+    const app = mergeBuilders(a, b, c).build();
+    expectTypeOf<typeof app.three>().toEqualTypeOf<number>();
+    expect([app.one, app.two, app.three]).toEqual([1, 2, 3]);
+    expect(Object.keys(a._toRecord())).toEqual(['one']);
+  });
+
+  it('mergeBuilders() accepts a conflict policy as the last argument', () => {
+    const base = container({ name: 'base' }).add('db', () => 'pg');
+    const dev = container({ name: 'dev' }).add('db', () => 'sqlite');
+
+    expect(() => mergeBuilders(base, dev)).toThrow(MergeConflictError);
+    expect(mergeBuilders(base, dev, { onConflict: 'last-wins' }).build().db).toBe('sqlite');
+  });
+});
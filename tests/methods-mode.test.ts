@@ -0,0 +1,79 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { reservedKeys, Validator } from '../src/domain/validation.js';
+import { container, ReservedKeyError } from '../src/index.js';
+
+interface HealthCheck {
+  ok: boolean;
+}
+
+function app() {
+  return container({ methods: '$' })
+    .add('health', (): HealthCheck => ({ ok: true }))
+    .add('module', () => 'billing')
+    .add('scope', () => 'tenant')
+    .add('report', (c) => `${c.module}/${c.scope}: ${c.health.ok}`)
+    .build();
+}
+
+describe("{ methods: '$' }", () => {
+  it('accepts container method names as keys', () => {
+    const c = app();
+
+    expect(c.health).toEqual({ ok: true });
+    expect(c.module).toBe('billing');
+    expect(c.scope).toBe('tenant');
+    expect(c.report).toBe('billing/tenant: true');
+    expectTypeOf(c.health).toEqualTypeOf<HealthCheck>();
+  });
+
+  it('exposes every container method on $', () => {
+    const c = app();
+
+    expect(c.$.inspect().providers.health.key).toBe('health');
+    expect(c.$.health().totalProviders).toBe(4);
+    expect(c.$.get('module')).toBe('billing');
+    expect(c.$.has('scope')).toBe(true);
+    expect(Object.keys(c)).toEqual(['health', 'module', 'scope', 'report']);
+  });
+
+  it('keeps the mode in scope(), extend() and module()', () => {
+    const c = app();
+    const request = c.$.scope({ inspect: () => 'request' });
+    const extended = c.$.extend({ preload: () => 'warm' });
+    const withModule = c.$.module((b) => b.add('dispose', () => 'later'));
+
+    expect(request.inspect).toBe('request');
+    expect(request.health).toEqual({ ok: true });
+    expect(extended.preload).toBe('warm');
+    expect(withModule.dispose).toBe('later');
+    expect(withModule.$.has('dispose')).toBe(true);
+  });
+
+  it('reserves only $', () => {
+    const builder = container({ methods: '$' });
+
+    expect(() => builder.add('$' as never, () => 1)).toThrow(ReservedKeyError);
+    expect(() => app().$.scope({ $: () => 1 } as never)).toThrow(ReservedKeyError);
+    try {
+      builder.add('$' as never, () => 1);
+    } catch (e) {
+      expect((e as ReservedKeyError).details.reserved).toEqual(['$']);
+    }
+  });
+
+  it('rejects merging a container-method key into a default builder', () => {
+    const free = container({ methods: '$' }).add('health', () => 'ok');
+
+    expect(() => container().merge(free)).toThrow(ReservedKeyError);
+  });
+
+  it('validateConfig() follows the mode', () => {
+    const validator = new Validator();
+
+    expect(() => validator.validateConfig({ health: () => 1 })).toThrow(ReservedKeyError);
+    expect(() => validator.validateConfig({ health: () => 1 }, reservedKeys('$'))).not.toThrow();
+    expect(() => validator.validateConfig({ $: () => 1 }, reservedKeys('$'))).toThrow(
+      ReservedKeyError,
+    );
+  });
+});
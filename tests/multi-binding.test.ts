@@ -0,0 +1,123 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { container, multi } from '../src/index.js';
+
+interface Probe {
+  name: string;
+}
+
+describe('multi-bindings', () => {
+  it('collects contributions into an array in registration order', () => {
+    const c = container()
+      .add('db', () => 'pg')
+      .addToSet('probes', (c) => ({ name: `db:${c.db}` }))
+      .addToSet('probes', () => ({ name: 'cache' }))
+      .build();
+
+    expect(c.probes).toEqual([{ name: 'db:pg' }, { name: 'cache' }]);
+    expect(c.probes).toBe(c.probes);
+  });
+
+  it('types the key as an array of all contributions', () => {
+    const c = container()
+      .addToSet('handlers', () => 'a')
+      .addToSet('handlers', () => 1)
+      .add('router', (c) => c.handlers.length)
+      .build();
+
+    expectTypeOf<typeof c.handlers>().toEqualTypeOf<(string | number)[]>();
+    expect(c.router).toBe(2);
+  });
+
+  it('constrains contributions in contract mode', () => {
+    interface Deps {
+      probes: Probe[];
+    }
+    const c = container<Deps>()
+      .addToSet('probes', () => ({ name: 'db' }))
+      .build();
+
+    expectTypeOf<typeof c.probes>().toEqualTypeOf<Probe[]>();
+    expect(c.probes).toEqual([{ name: 'db' }]);
+  });
+
+  it('registers every contribution as its own tracked provider', () => {
+    const c = container()
+      .add('db', () => 'pg')
+      .addToSet('probes', (c) => c.db)
+      .addToSet('probes', () => 'static')
+      .build();
+
+    c.probes;
+
+    const graph = c.inspect();
+    expect(graph.providers.probes.deps).toEqual(['probes[0]', 'probes[1]']);
+    expect(graph.providers['probes[0]'].deps).toEqual(['db']);
+    expect(graph.providers['probes[1]'].resolved).toBe(true);
+  });
+
+  it('modules append contributions', () => {
+    const c = container()
+      .addToSet('routes', () => '/health')
+      .addModule((b) => b.addToSet('routes', () => '/users'))
+      .build();
+
+    expect(c.routes).toEqual(['/health', '/users']);
+  });
+
+  it('extend() appends instead of replacing and reuses existing instances', () => {
+    let count = 0;
+    const app = container()
+      .addToSet('plugins', () => ({ id: ++count }))
+      .build();
+
+    const before = app.plugins;
+    const extended = app.extend({ plugins: multi(() => ({ id: 99 })) });
+
+    expect(extended.plugins).toEqual([{ id: 1 }, { id: 99 }]);
+    expect(extended.plugins[0]).toBe(before[0]);
+    expect(app.plugins).toEqual([{ id: 1 }]);
+    expect(count).toBe(1);
+  });
+
+  it('module() appends contributions post-build', () => {
+    const app = container()
+      .addToSet('subscribers', () => 'audit')
+      .build();
+
+    const withMore = app.module((b) => b.addToSet('subscribers', () => 'mailer'));
+    expect(withMore.subscribers).toEqual(['audit', 'mailer']);
+  });
+
+  it('scope() appends for the child only and shares parent contributions', () => {
+    let count = 0;
+    const app = container()
+      .addToSet('middlewares', () => ({ id: ++count }))
+      .build();
+
+    const request = app.scope({ middlewares: multi(() => ({ id: 42 })) });
+
+    expect(request.middlewares).toEqual([{ id: 1 }, { id: 42 }]);
+    expect(request.middlewares[0]).toBe(app.middlewares[0]);
+    expect(app.middlewares).toHaveLength(1);
+    expect(count).toBe(1);
+  });
+
+  it('multi() contributions receive a typed container', () => {
+    const app = container()
+      .add('prefix', () => 'v1')
+      .build();
+
+    const extended = app.extend({ routes: multi((c) => `/${c.prefix}/users`) });
+    expectTypeOf<typeof extended.routes>().toEqualTypeOf<string[]>();
+    expect(extended.routes).toEqual(['/v1/users']);
+  });
+
+  it('a plain registration replaces a multi-binding', () => {
+    const app = container()
+      .addToSet('plugins', () => 'a')
+      .build();
+
+    const replaced = app.extend({ plugins: () => ['only'] });
+    expect(replaced.plugins).toEqual(['only']);
+  });
+});
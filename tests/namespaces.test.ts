@@ -0,0 +1,222 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import {
+  container,
+  DuplicateProviderError,
+  defineModule,
+  lazy,
+  type ModuleBuilder,
+  optional,
+  ProviderNotFoundError,
+} from '../src/index.js';
+
+class InvoiceRepo {
+  constructor(readonly db: string) {}
+}
+
+class UserRepo {
+  constructor(readonly db: string) {}
+}
+
+function twoRepos() {
+  return container()
+    .add('db', () => 'pg')
+    .addModule('billing', (b) =>
+      b.add('repo', (c) => new InvoiceRepo(c.db)).add('service', (c) => ({ repo: c.repo })),
+    )
+    .addModule('auth', (b) => b.add('repo', (c) => new UserRepo(c.db)));
+}
+
+describe('namespaced modules', () => {
+  it('registers the same key in two namespaces', () => {
+    const c = twoRepos().build();
+
+    expect(c.billing.repo).toBeInstanceOf(InvoiceRepo);
+    expect(c.auth.repo).toBeInstanceOf(UserRepo);
+    expect(c['billing.repo']).toBe(c.billing.repo);
+    expectTypeOf(c.billing.repo).toEqualTypeOf<InvoiceRepo>();
+    expectTypeOf(c['auth.repo']).toEqualTypeOf<UserRepo>();
+  });
+
+  it('lets module factories read unprefixed siblings and host keys', () => {
+    const c = twoRepos().build();
+
+    expect(c.billing.service.repo).toBe(c.billing.repo);
+    expect(c.billing.repo.db).toBe('pg');
+    expect(c.describe('billing.service').deps).toEqual(['billing.repo']);
+    expect(c.describe('billing.repo').deps).toEqual(['db']);
+  });
+
+  it('resolves namespaces from other factories', () => {
+    const c = twoRepos()
+      .add('report', (c) => [c.billing.repo.db, c['auth.repo'].db])
+      .build();
+
+    expect(c.report).toEqual(['pg', 'pg']);
+    expect(c.describe('report').deps).toEqual(['billing.repo', 'auth.repo']);
+  });
+
+  it('groups providers by namespace in inspect()', () => {
+    const graph = twoRepos().build().inspect();
+
+    expect(graph.namespaces).toEqual({
+      billing: ['billing.repo', 'billing.service'],
+      auth: ['auth.repo'],
+    });
+    expect(graph.providers['billing.repo'].namespace).toBe('billing');
+    expect(graph.providers.db).not.toHaveProperty('namespace');
+  });
+
+  it('nests namespaces', () => {
+    const c = container()
+      .addModule('billing', (b) =>
+        b
+          .add('rate', () => 0.2)
+          .addModule('tax', (b) => b.add('total', (c) => c.rate * 100))
+          .add('summary', (c) => `tax: ${c.tax.total}`),
+      )
+      .build();
+
+    expect(c.billing.tax.total).toBe(20);
+    expect(c['billing.tax.total']).toBe(20);
+    expect(c.billing.summary).toBe('tax: 20');
+    expect(c.describe('billing.tax.total').namespace).toBe('billing.tax');
+  });
+
+  it('qualifies optional(), lazy(), aliases and declared deps', () => {
+    const c = container()
+      .addModule('billing', (b) =>
+        b
+          .add('repo', () => 'repo')
+          .alias('store', 'repo')
+          .add('reader', (c) => [c.repo, optional(c, 'metrics'), lazy(c, 'store')()], {
+            deps: ['repo'],
+          }),
+      )
+      .build();
+
+    expect(c.billing.store).toBe('repo');
+    expect(c.describe('billing.reader').deps).toEqual(['billing.repo']);
+    expect(c.billing.reader).toEqual(['repo', undefined, 'repo']);
+    expect(c.describe('billing.reader')).toMatchObject({
+      optionalDeps: ['metrics'],
+      lazyDeps: ['billing.store'],
+    });
+    expect(c.inspect().aliases).toEqual({ 'billing.store': 'billing.repo' });
+    expect(c.health().warnings).toEqual([]);
+  });
+
+  it('decorates host providers from inside the module', () => {
+    const c = container()
+      .add('logger', () => ['base'])
+      .addModule('billing', (b) => b.decorate('logger', (inner) => [...inner, 'billing']))
+      .build();
+
+    expect(c.logger).toEqual(['base', 'billing']);
+  });
+
+  it('lets module decorators read unprefixed siblings', () => {
+    const c = container()
+      .add('logger', () => 'HOSTLOG')
+      .add('audit', () => ['base'])
+      .addModule('billing', (b) =>
+        b
+          .add('logger', () => 'BILLLOG')
+          .add('repo', () => 'repo')
+          .decorate('repo', function logged(inner, c) {
+            return `${inner}:${c.logger}`;
+          })
+          .decorate('audit', (inner, c) => [...inner, c.logger]),
+      )
+      .build();
+
+    expect(c.billing.repo).toBe('repo:BILLLOG');
+    expect(c.audit).toEqual(['base', 'BILLLOG']);
+    expect(c.describe('billing.repo').decorators).toEqual(['logged']);
+    expect(c.describe('billing.repo').deps).toEqual(['billing.logger']);
+  });
+
+  it('types module keys that shadow host keys', () => {
+    const shardModule = defineModule({
+      name: 'shard',
+      requires: ['db'],
+      provides: (b: ModuleBuilder<{ db: string }>) =>
+        b.add('db', () => 2).add('repo', () => 'repo'),
+    });
+
+    const c = container()
+      .add('logger', () => 'log')
+      .add('db', () => 'pg')
+      .addModule('billing', (b) => b.add('logger', () => 42).add('repo', (c) => `repo(${c.db})`))
+      .addModule('shard', shardModule)
+      .build();
+
+    expect(c.billing.logger).toBe(42);
+    expect(c.shard.db).toBe(2);
+    expectTypeOf(c.logger).toEqualTypeOf<string>();
+    expectTypeOf(c.billing.logger).toEqualTypeOf<number>();
+    expectTypeOf(c['billing.logger']).toEqualTypeOf<number>();
+    expectTypeOf(c.billing.repo).toEqualTypeOf<string>();
+    expectTypeOf(c.shard.db).toEqualTypeOf<number>();
+  });
+
+  it('applies a defineModule() module under a namespace', () => {
+    const repoModule = defineModule({
+      name: 'repo',
+      requires: ['db'],
+      provides: (b: ModuleBuilder<{ db: string }>) => b.add('repo', (c) => `repo(${c.db})`),
+    });
+
+    const c = container()
+      .add('db', () => 'pg')
+      .addModule('billing', repoModule)
+      .addModule('auth', repoModule)
+      .build();
+
+    expect([c.billing.repo, c.auth.repo]).toEqual(['repo(pg)', 'repo(pg)']);
+    expect(c.describe('auth.repo')).toMatchObject({ module: 'repo', namespace: 'auth' });
+  });
+
+  it('rejects a namespace applied twice in strict mode', () => {
+    const builder = container({ strict: true }).addModule('billing', (b) => b.add('repo', () => 1));
+
+    expect(() => builder.addModule('billing', (b) => b.add('repo', () => 2))).toThrow(
+      DuplicateProviderError,
+    );
+    try {
+      builder.addModule('billing', (b) => b.add('repo', () => 2));
+    } catch (e) {
+      const { sites } = (e as DuplicateProviderError).details;
+      for (const site of sites) expect(site).toContain('namespaces.test.ts');
+      expect(sites.join()).not.toContain('container-builder');
+    }
+  });
+
+  it('suggests namespaced keys in ProviderNotFoundError', () => {
+    const c = twoRepos()
+      .add('broken', (c) => (c as Record<string, unknown>).service)
+      .build();
+
+    expect(() => c.broken).toThrow(ProviderNotFoundError);
+    try {
+      c.broken;
+    } catch (e) {
+      expect((e as ProviderNotFoundError).details.suggestion).toBe('billing.service');
+    }
+    try {
+      (c.billing as Record<string, unknown>).servce;
+    } catch (e) {
+      expect((e as ProviderNotFoundError).details).toMatchObject({
+        key: 'billing.servce',
+        suggestion: 'billing.service',
+      });
+    }
+  });
+
+  it('exposes namespace members to `in` and Object.keys()', () => {
+    const c = twoRepos().build();
+
+    expect('billing' in c).toBe(true);
+    expect(Object.keys(c.billing)).toEqual(['repo', 'service']);
+    expect('repo' in c.auth).toBe(true);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { container, FactoryError, optional } from '../src/index.js';
+
+interface Metrics {
+  inc(name: string): void;
+}
+
+describe('optional dependencies', () => {
+  it('returns undefined when no provider is registered', () => {
+    const c = container()
+      .add('service', (c) => ({ metrics: optional<Metrics>(c, 'metrics') }))
+      .build();
+
+    expect(c.service.metrics).toBeUndefined();
+  });
+
+  it('resolves the provider when it is registered', () => {
+    const metrics: Metrics = { inc() {} };
+    const c = container()
+      .add('metrics', () => metrics)
+      .add('service', (c) => ({ metrics: optional(c, 'metrics') }))
+      .build();
+
+    expectTypeOf<typeof c.service.metrics>().toEqualTypeOf<Metrics | undefined>();
+    expect(c.service.metrics).toBe(metrics);
+  });
+
+  it('finds providers registered in a parent scope', () => {
+    const app = container()
+      .add('metrics', () => 'parent-metrics')
+      .build();
+
+    const request = app.scope({ handler: (c) => optional(c, 'metrics') });
+    expect(request.handler).toBe('parent-metrics');
+  });
+
+  it('still surfaces errors from a registered provider', () => {
+    const c = container()
+      .add('metrics', (): string => {
+        throw new Error('boom');
+      })
+      .add('service', (c) => optional(c, 'metrics') ?? 'none')
+      .build();
+
+    expect(() => c.service).toThrow(FactoryError);
+  });
+
+  it('records optional edges separately in inspect()', () => {
+    const c = container()
+      .add('db', () => 'pg')
+      .add('tracer', () => 'otel')
+      .add('service', (c) => [c.db, optional(c, 'tracer'), optional(c, 'metrics')])
+      .build();
+
+    c.service;
+    expect(c.describe('service')).toMatchObject({
+      deps: ['db'],
+      optionalDeps: ['tracer', 'metrics'],
+    });
+    expect(c.inspect().providers.db).not.toHaveProperty('optionalDeps');
+  });
+
+  it('records each optional edge once', () => {
+    const c = container()
+      .add('service', (c) => [optional(c, 'metrics'), optional(c, 'metrics')])
+      .build();
+
+    c.service;
+    expect(c.describe('service').optionalDeps).toEqual(['metrics']);
+  });
+
+  it('orders onInit after registered optional deps in preload()', async () => {
+    const order: string[] = [];
+    const hooked = (name: string) => () => ({
+      onInit() {
+        order.push(name);
+      },
+    });
+    const c = container()
+      .add('service', (c) => ({
+        metrics: optional(c, 'metrics'),
+        ...hooked('service')(),
+      }))
+      .add('metrics', hooked('metrics'))
+      .build();
+
+    await c.preload('service');
+    expect(order).toEqual(['metrics', 'service']);
+  });
+
+  it('works on a built container', () => {
+    const c = container()
+      .add('db', () => 'pg')
+      .build();
+
+    expect(optional(c, 'db')).toBe('pg');
+    expect(optional(c, 'cache')).toBeUndefined();
+  });
+});
@@ -325,7 +325,7 @@ describe('preload', () => {
       expect(inited).toBe(true);
     });
 
-    it('retry preload calls onInit again for previously failed keys', async () => {
+    it('retry preload after reset calls onInit again for previously failed keys', async () => {
       let attempt = 0;
 
       const c = container()
@@ -339,7 +339,11 @@ describe('preload', () => {
 
       await expect(c.preload()).rejects.toThrow('connection refused');
 
-      // Retry — should succeed now (initCalled not set for failed keys)
+      // The failed init is kept until reset
+      await expect(c.preload()).rejects.toThrow('connection refused');
+      expect(attempt).toBe(1);
+
+      c.reset('db');
       await c.preload();
       expect(attempt).toBe(2);
     });
@@ -0,0 +1,217 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { container, optional, ProfileError } from '../src/index.js';
+
+interface Mailer {
+  send(to: string): string;
+}
+
+class SmtpMailer implements Mailer {
+  send(to: string) {
+    return `smtp:${to}`;
+  }
+}
+
+class ConsoleMailer implements Mailer {
+  send(to: string) {
+    return `console:${to}`;
+  }
+}
+
+class InMemoryMailer implements Mailer {
+  readonly sent: string[] = [];
+  send(to: string) {
+    this.sent.push(to);
+    return `memory:${to}`;
+  }
+}
+
+function mailers() {
+  return container()
+    .add('from', () => 'noreply@example.com')
+    .addProfiles('mailer', {
+      production: () => new SmtpMailer(),
+      test: () => new InMemoryMailer(),
+      default: () => new ConsoleMailer(),
+    });
+}
+
+describe('profiles', () => {
+  it('picks the variant of the build profile', () => {
+    expect(mailers().build({ profile: 'production' }).mailer).toBeInstanceOf(SmtpMailer);
+    expect(mailers().build({ profile: 'test' }).mailer).toBeInstanceOf(InMemoryMailer);
+  });
+
+  it('falls back to the default variant', () => {
+    expect(mailers().build({ profile: 'local' }).mailer).toBeInstanceOf(ConsoleMailer);
+    expect(mailers().build().mailer).toBeInstanceOf(ConsoleMailer);
+  });
+
+  it('types the key as the union of the variants', () => {
+    const c = mailers().build({ profile: 'test' });
+
+    expectTypeOf(c.mailer).toEqualTypeOf<SmtpMailer | InMemoryMailer | ConsoleMailer>();
+  });
+
+  it('records the selected variant in describe()', () => {
+    const c = mailers().build({ profile: 'test' });
+
+    expect(c.describe('mailer').profile).toBe('test');
+    expect(mailers().build({ profile: 'local' }).describe('mailer').profile).toBe('default');
+    expect(c.describe('from')).not.toHaveProperty('profile');
+  });
+
+  it('keeps tags and decorators across variants', () => {
+    const c = mailers()
+      .decorate('mailer', (inner) => ({ send: (to: string) => `[${inner.send(to)}]` }))
+      .build({ profile: 'production' });
+
+    expect(c.mailer.send('bob')).toBe('[smtp:bob]');
+    expect(c.describe('mailer').decorators).toHaveLength(1);
+  });
+
+  it('throws ProfileError when a profile leaves keys without a variant', () => {
+    const builder = container()
+      .addProfiles('db', { production: () => 'pg', test: () => 'memory' })
+      .addProfiles('queue', { production: () => 'sqs' });
+
+    expect(() => builder.build({ profile: 'local' })).toThrow(ProfileError);
+    expect(() => builder.build({ profile: 'test' })).toThrow(
+      expect.objectContaining({
+        message: "Profile 'test' leaves 'queue' without an implementation.",
+        details: { profile: 'test', missing: ['queue'] },
+      }),
+    );
+  });
+
+  it('registers addIf() providers only when the predicate accepts the profile', () => {
+    const builder = container()
+      .add('app', () => 'app')
+      .addIf(
+        (profile) => profile !== 'production',
+        'devTools',
+        () => 'devtools',
+      )
+      .add('banner', (c) => optional(c, 'devTools') ?? 'none');
+
+    const dev = builder.build({ profile: 'local' });
+    const prod = builder.build({ profile: 'production' });
+
+    expect(dev.devTools).toBe('devtools');
+    expect(dev.banner).toBe('devtools');
+    expect(prod.banner).toBe('none');
+    expect('devTools' in prod).toBe(false);
+    expectTypeOf(dev.devTools).toEqualTypeOf<string | undefined>();
+  });
+
+  it.each([
+    false,
+    true,
+  ])('keeps the addIf() candidate the profile selects (strict: %s)', (strict) => {
+    const builder = container({ strict })
+      .addIf(
+        (p) => p === 'production',
+        'mailer',
+        () => new SmtpMailer(),
+        { tags: ['mail'] },
+      )
+      .addIf(
+        (p) => p !== 'production',
+        'mailer',
+        () => new ConsoleMailer(),
+      );
+
+    const prod = builder.build({ profile: 'production' });
+    expect(prod.mailer).toBeInstanceOf(SmtpMailer);
+    expect(prod.describe('mailer').tags).toEqual(['mail']);
+    expect(builder.build({ profile: 'test' }).mailer).toBeInstanceOf(ConsoleMailer);
+    expect(builder.build().mailer).toBeInstanceOf(ConsoleMailer);
+  });
+
+  it('throws ProfileError when none or several addIf() candidates match', () => {
+    const builder = container()
+      .addIf(
+        (p) => p === 'production',
+        'mailer',
+        () => new SmtpMailer(),
+      )
+      .addIf(
+        (p) => p !== 'test',
+        'mailer',
+        () => new ConsoleMailer(),
+      )
+      .addIf(
+        (p) => p === 'staging',
+        'mailer',
+        () => new InMemoryMailer(),
+      );
+
+    expect(() => builder.build({ profile: 'production' })).toThrow(
+      expect.objectContaining({
+        message: "Profile 'production' selects several implementations of 'mailer'.",
+        details: { profile: 'production', missing: [], ambiguous: ['mailer'] },
+      }),
+    );
+    expect(() => builder.build({ profile: 'test' })).toThrow(
+      expect.objectContaining({ details: { profile: 'test', missing: ['mailer'] } }),
+    );
+  });
+
+  it('rebinds addIf() candidates in namespaced modules', () => {
+    const c = container()
+      .add('from', () => 'host')
+      .addModule('billing', (b) =>
+        b
+          .add('from', () => 'billing')
+          .addIf(
+            (p) => p === 'test',
+            'mailer',
+            (c) => `memory:${c.from}`,
+          )
+          .addIf(
+            (p) => p !== 'test',
+            'mailer',
+            (c) => `smtp:${c.from}`,
+          ),
+      )
+      .build({ profile: 'test' });
+
+    expect(c.billing.mailer).toBe('memory:billing');
+  });
+
+  it('does not let addIf() complete a contract', () => {
+    interface AppDeps {
+      mailer: Mailer;
+    }
+
+    const conditional = container<AppDeps>().addIf(
+      (p) => p === 'test',
+      'mailer',
+      () => new InMemoryMailer(),
+    );
+    const complete = container<AppDeps>().addProfiles('mailer', {
+      test: () => new InMemoryMailer(),
+      default: () => new ConsoleMailer(),
+    });
+
+    // @ts-expect-error — 'mailer' is only registered for some profiles
+    expect(() => conditional.build({ profile: 'local' })).not.toThrow();
+    expect(complete.build().mailer).toBeInstanceOf(ConsoleMailer);
+  });
+
+  it('applies the profile to namespaced modules and module()', () => {
+    const c = container()
+      .addModule('billing', (b) =>
+        b
+          .add('rate', () => 0.2)
+          .addProfiles('tax', { test: (c) => c.rate * 0, default: (c) => c.rate * 100 }),
+      )
+      .build({ profile: 'test' });
+    const extended = c.module((b) =>
+      b.addProfiles('clock', { test: () => 'frozen', default: () => 'system' }),
+    );
+
+    expect(c.billing.tax).toBe(0);
+    expect(c.describe('billing.tax')).toMatchObject({ profile: 'test', namespace: 'billing' });
+    expect(extended.clock).toBe('frozen');
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { container } from '../src/index.js';
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+class Database {
+  connected = false;
+  static inits = 0;
+
+  async onInit() {
+    Database.inits++;
+    await sleep(5);
+    this.connected = true;
+  }
+}
+
+function app() {
+  Database.inits = 0;
+  return container()
+    .add('db', () => new Database())
+    .build();
+}
+
+describe('ready', () => {
+  it('resolves the instance once its onInit has completed', async () => {
+    const c = app();
+
+    const db = await c.ready('db');
+    expect(db).toBe(c.db);
+    expect(db.connected).toBe(true);
+    expectTypeOf(db).toEqualTypeOf<Database>();
+  });
+
+  it('shares one init between concurrent callers', async () => {
+    const c = app();
+
+    const [a, b] = await Promise.all([c.ready('db'), c.ready('db')]);
+    expect(a).toBe(b);
+    expect(a.connected).toBe(true);
+    expect(Database.inits).toBe(1);
+  });
+
+  it('awaits an init already started by property access', async () => {
+    const c = app();
+
+    expect(c.db.connected).toBe(false); // onInit is not awaited on access
+    expect((await c.ready('db')).connected).toBe(true);
+    expect(Database.inits).toBe(1);
+  });
+
+  it('keeps a failed init until reset()', async () => {
+    let attempt = 0;
+    const c = container()
+      .add('db', () => ({
+        async onInit() {
+          attempt++;
+          if (attempt === 1) throw new Error('connection refused');
+        },
+      }))
+      .build();
+
+    await expect(c.ready('db')).rejects.toThrow('connection refused');
+    await expect(c.ready('db')).rejects.toThrow('connection refused');
+    await expect(c.preload('db')).rejects.toThrow('connection refused');
+    expect(attempt).toBe(1);
+
+    c.reset('db');
+    await expect(c.ready('db')).resolves.toBeDefined();
+    expect(attempt).toBe(2);
+  });
+
+  it('shares init runs with containers made by extend()', async () => {
+    const c = app();
+    const db = c.db; // onInit starts, not awaited
+    const ext = c.extend({ extra: () => 'x' });
+
+    expect(await ext.ready('db')).toBe(db);
+    expect(db.connected).toBe(true);
+    expect(Database.inits).toBe(1);
+
+    const failing = container()
+      .add('db', () => ({
+        async onInit() {
+          throw new Error('connection refused');
+        },
+      }))
+      .build();
+    await expect(failing.ready('db')).rejects.toThrow('connection refused');
+    await expect(failing.extend({}).ready('db')).rejects.toThrow('connection refused');
+  });
+
+  it('awaits async factories and inits from a scope', async () => {
+    const c = container()
+      .addAsync('config', async () => ({ url: 'pg://' }))
+      .add('db', () => new Database())
+      .build();
+    const request = c.scope({ handler: (c) => c.db }, { name: 'request' });
+
+    const [config, db] = await Promise.all([request.ready('config'), request.ready('db')]);
+    expect(config.url).toBe('pg://');
+    expect(db).toBe(c.db);
+    expect(db.connected).toBe(true);
+  });
+
+  it('is reserved as a dependency key', () => {
+    expect(() => container().add('ready' as never, () => 1)).toThrow('reserved');
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import {
+  container,
+  defineModule,
+  type ModuleBuilder,
+  multi,
+  type ResolutionContext,
+  transient,
+} from '../src/index.js';
+
+class Logger {
+  constructor(readonly name: string) {}
+}
+
+const namedLogger = (_c: unknown, ctx: ResolutionContext) =>
+  new Logger(ctx.chain.at(-1) ?? ctx.key);
+
+describe('resolution context', () => {
+  it('passes the key being built', () => {
+    const label = (_c: unknown, ctx: ResolutionContext) => `label:${ctx.key}`;
+    const c = container().add('primary', label).add('replica', label).build();
+
+    expect([c.primary, c.replica]).toEqual(['label:primary', 'label:replica']);
+  });
+
+  it('passes the chain that requested the provider', () => {
+    const c = container()
+      .addTransient('logger', namedLogger)
+      .add('userService', (c) => ({ logger: c.logger }))
+      .add('billing', (c) => ({ logger: c.logger, users: c.userService }))
+      .build();
+
+    expect(c.userService.logger.name).toBe('userService');
+    expect(c.billing.logger.name).toBe('billing');
+    expect(c.logger.name).toBe('logger');
+  });
+
+  it('types ctx in builder factories', () => {
+    container().add('x', (_c, ctx) => {
+      expectTypeOf(ctx).toEqualTypeOf<ResolutionContext>();
+      return ctx.key;
+    });
+  });
+
+  it('passes the name of the scope building the provider', () => {
+    const seen: (string | undefined)[] = [];
+    const c = container()
+      .add('root', (_c, ctx) => seen.push(ctx.scopeName))
+      .addScoped('unitOfWork', (_c, ctx) => ctx.scopeName ?? '(none)')
+      .build();
+    const request = c.scope({ requestId: (_c, ctx) => `${ctx.scopeName}:1` }, { name: 'req' });
+
+    expect(request.requestId).toBe('req:1');
+    expect(request.unitOfWork).toBe('req');
+    expect(c.scope({}).unitOfWork).toBe('(none)');
+    request.root;
+    expect(seen).toEqual([undefined]);
+  });
+
+  it('exposes tags, declared deps, module and namespace', () => {
+    const metrics = defineModule({
+      name: 'metrics',
+      provides: (b: ModuleBuilder) => b.add('counter', (_c, ctx) => ctx),
+    });
+    const c = container()
+      .add('db', (_c, ctx) => ctx, { tags: ['infra'], deps: [] })
+      .addModule('billing', metrics)
+      .build();
+
+    expect(c.db).toEqual({ key: 'db', chain: [], tags: ['infra'], deps: [] });
+    expect(c.billing.counter).toEqual({
+      key: 'billing.counter',
+      chain: [],
+      tags: [],
+      module: 'metrics',
+      namespace: 'billing',
+    });
+  });
+
+  it('is forwarded by transient(), multi() and async factories', async () => {
+    const c = container()
+      .addToSet('plugins', (_c, ctx) => ctx.key)
+      .addAsync('conn', async (_c, ctx) => `conn:${ctx.key}`)
+      .build()
+      .extend({
+        id: transient((_c, ctx) => ctx.key),
+        probes: multi((_c: unknown, ctx: ResolutionContext) => ctx.chain.length),
+      });
+
+    expect(c.plugins).toEqual(['plugins[0]']);
+    expect(c.id).toBe('id');
+    expect(c.probes).toEqual([1]);
+    expect(await c.resolveAsync('conn')).toBe('conn:conn');
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { container, ScopedResolutionError, scoped } from '../src/index.js';
+
+describe('scoped lifetime', () => {
+  it('is cached once per scope', () => {
+    let count = 0;
+    const app = container()
+      .addScoped('unitOfWork', () => ({ id: ++count }))
+      .build();
+
+    const a = app.scope({});
+    const b = app.scope({});
+
+    expect(a.unitOfWork).toBe(a.unitOfWork);
+    expect(b.unitOfWork).not.toBe(a.unitOfWork);
+    expect(count).toBe(2);
+  });
+
+  it('resolves its deps from the requesting scope', () => {
+    const app = container()
+      .add('db', () => 'pg')
+      .addScoped('requestLogger', (c) => `logger:${c.db}`)
+      .build();
+
+    const request = app.scope({ db: () => 'tenant-db' });
+    expect(request.requestLogger).toBe('logger:tenant-db');
+  });
+
+  it('shares parent singletons across scopes', () => {
+    let dbCount = 0;
+    const app = container()
+      .add('db', () => ({ id: ++dbCount }))
+      .addScoped('repo', (c) => ({ db: c.db }))
+      .build();
+
+    const a = app.scope({}).repo;
+    const b = app.scope({}).repo;
+    expect(a).not.toBe(b);
+    expect(a.db).toBe(b.db);
+    expect(dbCount).toBe(1);
+  });
+
+  it('nested scopes get their own instance', () => {
+    let count = 0;
+    const app = container()
+      .addScoped('tenant', () => ++count)
+      .build();
+
+    const child = app.scope({});
+    const grandchild = child.scope({});
+    expect(child.tenant).toBe(1);
+    expect(grandchild.tenant).toBe(2);
+  });
+
+  it('rejects resolution from the root container', () => {
+    const app = container()
+      .addScoped('unitOfWork', () => ({}))
+      .build();
+
+    expect(() => app.unitOfWork).toThrow(ScopedResolutionError);
+    try {
+      app.unitOfWork;
+    } catch (e) {
+      const err = e as ScopedResolutionError;
+      expect(err.details).toEqual({ key: 'unitOfWork', chain: [] });
+      expect(err.hint).toContain('app.scope({}).unitOfWork');
+    }
+  });
+
+  it('rejects root singletons that depend on a scoped provider', () => {
+    const app = container()
+      .addScoped('tenant', () => 'acme')
+      .add('service', (c) => `service:${c.tenant}`)
+      .build();
+
+    const request = app.scope({});
+    expect(() => request.service).toThrow(ScopedResolutionError);
+    try {
+      app.service;
+    } catch (e) {
+      const err = e as ScopedResolutionError;
+      expect(err.details.chain).toEqual(['service']);
+      expect(err.hint).toContain("'service' is resolved at the root");
+    }
+  });
+
+  it('is reported as scoped by inspect()', () => {
+    const app = container()
+      .add('db', () => 'pg')
+      .addScoped('unitOfWork', () => ({}))
+      .build();
+
+    expect(app.inspect().providers.unitOfWork.scope).toBe('scoped');
+    expect(app.describe('unitOfWork').scope).toBe('scoped');
+  });
+
+  it('is skipped by preload() on the root', async () => {
+    const app = container()
+      .add('db', () => 'pg')
+      .addScoped('unitOfWork', () => ({}))
+      .build();
+
+    await app.preload();
+    expect(app.health().resolved).toEqual(['db']);
+  });
+
+  it('is disposed with its scope', async () => {
+    let destroyed = 0;
+    const app = container()
+      .addScoped('session', () => ({
+        onDestroy() {
+          destroyed++;
+        },
+      }))
+      .build();
+
+    const request = app.scope({});
+    request.session;
+    await request.dispose();
+    expect(destroyed).toBe(1);
+  });
+
+  it('scoped() marks providers in extend()', () => {
+    const app = container()
+      .add('db', () => 'pg')
+      .build()
+      .extend({ unitOfWork: scoped((c: any) => ({ db: c.db })) });
+
+    expect(() => app.unitOfWork).toThrow(ScopedResolutionError);
+    const request = app.scope({});
+    expect(request.unitOfWork).toEqual({ db: 'pg' });
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AsyncProviderError,
+  container,
+  DuplicateProviderError,
+  ProviderNotFoundError,
+  ScopedResolutionError,
+} from '../src/index.js';
+
+describe('strict mode', () => {
+  it('throws DuplicateProviderError naming both registration sites', () => {
+    const builder = container({ strict: true }).add('cache', () => 'redis');
+
+    expect(() => builder.add('cache', () => 'memcached')).toThrow(DuplicateProviderError);
+    try {
+      builder.add('cache', () => 'memcached');
+    } catch (e) {
+      const err = e as DuplicateProviderError;
+      expect(err.details.key).toBe('cache');
+      expect(err.details.sites).toHaveLength(2);
+      for (const site of err.details.sites) expect(site).toContain('strict.test.ts');
+      expect(err.details.sites[0]).not.toBe(err.details.sites[1]);
+      expect(err.hint).toContain(".override('cache'");
+    }
+  });
+
+  it('catches duplicates across modules and registration methods', () => {
+    const builder = container({ strict: true }).addModule((b) => b.add('cache', () => 'redis'));
+
+    expect(() => builder.addModule((b) => b.addTransient('cache', () => 'lru'))).toThrow(
+      DuplicateProviderError,
+    );
+    expect(() => builder.alias('cache', 'cache')).toThrow(DuplicateProviderError);
+  });
+
+  it('still appends multi-binding contributions', () => {
+    const c = container({ strict: true })
+      .addToSet('routes', () => '/a')
+      .addToSet('routes', () => '/b')
+      .build();
+
+    expect(c.routes).toEqual(['/a', '/b']);
+  });
+
+  it('is off by default — add() replaces silently', () => {
+    const c = container()
+      .add('cache', () => 'redis')
+      .add('cache', () => 'memcached')
+      .build();
+
+    expect(c.cache).toBe('memcached');
+  });
+});
+
+describe('override()', () => {
+  it('replaces a registered provider, in strict mode too', () => {
+    const c = container({ strict: true })
+      .add('cache', () => 'redis')
+      .add('service', (c) => `uses ${c.cache}`)
+      .override('cache', () => 'in-memory')
+      .build();
+
+    expect(c.service).toBe('uses in-memory');
+  });
+
+  it('throws ProviderNotFoundError when the key was never registered', () => {
+    const builder = container().add('cache', () => 'redis');
+
+    expect(() => builder.override('cahce' as 'cache', () => 'x')).toThrow(ProviderNotFoundError);
+    try {
+      builder.override('cahce' as 'cache', () => 'x');
+    } catch (e) {
+      expect((e as ProviderNotFoundError).details.suggestion).toBe('cache');
+    }
+  });
+
+  it('becomes the registration site reported for later duplicates', () => {
+    const builder = container({ strict: true }).add('cache', () => 'redis');
+    const duplicateSites = () => {
+      try {
+        builder.add('cache', () => 'lru');
+      } catch (e) {
+        return (e as DuplicateProviderError).details.sites;
+      }
+      return [];
+    };
+
+    const [added] = duplicateSites();
+    builder.override('cache', () => 'in-memory');
+    const [overridden, duplicate] = duplicateSites();
+    expect(overridden).toContain('strict.test.ts');
+    expect(overridden).not.toBe(added);
+    expect(overridden).not.toBe(duplicate);
+  });
+
+  it('is reported by describe() and keeps tags and decorators', () => {
+    const c = container()
+      .add('cache', () => 'redis', { tags: ['infra'] })
+      .add('db', () => 'pg')
+      .decorate('cache', function traced(inner) {
+        return `traced(${inner})`;
+      })
+      .override('cache', () => 'in-memory')
+      .build();
+
+    expect(c.cache).toBe('traced(in-memory)');
+    expect(c.describe('cache')).toEqual({
+      key: 'cache',
+      resolved: true,
+      deps: [],
+      scope: 'singleton',
+      tags: ['infra'],
+      decorators: ['traced'],
+      overridden: true,
+    });
+    expect(c.describe('db')).not.toHaveProperty('overridden');
+  });
+
+  it('keeps the lifetime of the replaced provider', async () => {
+    let id = 0;
+    const c = container()
+      .addTransient('requestId', () => 0)
+      .addScoped('uow', () => 'uow')
+      .addAsync('db', async () => 'pg')
+      .override('requestId', () => ++id)
+      .override('uow', () => `uow-${++id}`)
+      .override('db', () => 'memory')
+      .build();
+
+    expect([c.requestId, c.requestId]).toEqual([1, 2]);
+    expect(() => c.uow).toThrow(ScopedResolutionError);
+    expect(c.scope({}).uow).not.toBe(c.scope({}).uow);
+    expect(() => c.db).toThrow(AsyncProviderError);
+    expect(await c.resolveAsync('db')).toBe('memory');
+    expect(c.describe('requestId').scope).toBe('transient');
+    expect(c.describe('uow').scope).toBe('scoped');
+  });
+});
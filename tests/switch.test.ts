@@ -0,0 +1,107 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { container, SwitchError } from '../src/index.js';
+
+interface Gateway {
+  charge(amount: number): string;
+}
+
+class StripeGateway implements Gateway {
+  constructor(readonly key: string) {}
+  charge(amount: number) {
+    return `stripe:${amount}`;
+  }
+}
+
+class PaypalGateway implements Gateway {
+  charge(amount: number) {
+    return `paypal:${amount}`;
+  }
+}
+
+function billing(config: { provider: string }) {
+  return container()
+    .add('config', () => ({ ...config }))
+    .add('stripeKey', () => 'sk_test')
+    .addSwitch('payment', (c) => c.config.provider, {
+      stripe: (c) => new StripeGateway(c.stripeKey),
+      paypal: () => new PaypalGateway(),
+    })
+    .build();
+}
+
+describe('addSwitch', () => {
+  it('runs the branch named by the selector', () => {
+    expect(billing({ provider: 'stripe' }).payment).toBeInstanceOf(StripeGateway);
+    expect(billing({ provider: 'paypal' }).payment.charge(5)).toBe('paypal:5');
+  });
+
+  it('types the key as the union of the branches', () => {
+    const c = billing({ provider: 'stripe' });
+
+    expectTypeOf(c.payment).toEqualTypeOf<StripeGateway | PaypalGateway>();
+  });
+
+  it('tracks the deps of the selector and of the chosen branch', () => {
+    expect(billing({ provider: 'stripe' }).describe('payment').deps).toEqual([]);
+
+    const stripe = billing({ provider: 'stripe' });
+    stripe.payment;
+    expect(stripe.describe('payment').deps).toEqual(['config', 'stripeKey']);
+
+    const paypal = billing({ provider: 'paypal' });
+    paypal.payment;
+    expect(paypal.describe('payment').deps).toEqual(['config']);
+  });
+
+  it('throws SwitchError listing the branches for an unknown value', () => {
+    const c = billing({ provider: 'adyen' });
+
+    expect(() => c.payment).toThrow(SwitchError);
+    try {
+      c.payment;
+    } catch (e) {
+      expect((e as SwitchError).details).toEqual({
+        key: 'payment',
+        branch: 'adyen',
+        branches: ['stripe', 'paypal'],
+      });
+      expect((e as SwitchError).message).toBe("Switch 'payment' has no branch 'adyen'.");
+    }
+  });
+
+  it('re-evaluates after reset() of a selector dep', () => {
+    const settings = { provider: 'stripe' };
+    const c = container()
+      .add('settings', () => ({ ...settings }))
+      .addSwitch('mode', (c) => c.settings.provider, { stripe: () => 's', paypal: () => 'p' })
+      .addSwitch('label', (c) => c.mode, { s: () => 'Stripe', p: () => 'PayPal' })
+      .add('other', () => 'other')
+      .build();
+    expect([c.mode, c.label, c.other]).toEqual(['s', 'Stripe', 'other']);
+
+    settings.provider = 'paypal';
+    expect(c.mode).toBe('s'); // cached until reset
+
+    c.reset('settings');
+    expect(c.describe('mode').resolved).toBe(false);
+    expect(c.describe('label').resolved).toBe(false);
+    expect(c.describe('other').resolved).toBe(true);
+    expect([c.mode, c.label]).toEqual(['p', 'PayPal']);
+  });
+
+  it('works in namespaced modules', () => {
+    const c = container()
+      .addModule('billing', (b) =>
+        b
+          .add('provider', () => 'paypal')
+          .addSwitch('gateway', (c) => c.provider, {
+            stripe: () => new StripeGateway('k'),
+            paypal: () => new PaypalGateway(),
+          }),
+      )
+      .build();
+
+    expect(c.billing.gateway).toBeInstanceOf(PaypalGateway);
+    expect(c.describe('billing.gateway').deps).toEqual(['billing.provider']);
+  });
+});
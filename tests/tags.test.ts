@@ -0,0 +1,139 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { container, ReservedKeyError } from '../src/index.js';
+
+describe('provider tags', () => {
+  it('shows tags in inspect() and describe()', () => {
+    const c = container()
+      .add('db', () => 'pg', { tags: ['infra'] })
+      .add('pgHealth', (c) => `health:${c.db}`, { tags: ['health', 'infra'] })
+      .add('plain', () => 1)
+      .build();
+
+    expect(c.describe('pgHealth').tags).toEqual(['health', 'infra']);
+    expect(c.inspect().providers.db.tags).toEqual(['infra']);
+    expect(c.describe('plain')).toEqual({
+      key: 'plain',
+      resolved: false,
+      deps: [],
+      scope: 'singleton',
+    });
+  });
+
+  it('keeps the lifetime of tagged providers', () => {
+    let count = 0;
+    const c = container()
+      .addTransient('requestId', () => ++count, { tags: ['request'] })
+      .addScoped('uow', () => ({}), { tags: ['request'] })
+      .build();
+
+    expect(c.requestId).toBe(1);
+    expect(c.requestId).toBe(2);
+    expect(c.describe('requestId').scope).toBe('transient');
+    expect(c.describe('uow')).toMatchObject({ scope: 'scoped', tags: ['request'] });
+  });
+
+  it('tags instance values and multi-binding contributions', () => {
+    const c = container()
+      .add('config', { port: 3000 }, { tags: ['config'] })
+      .addToSet('probes', () => 'db', { tags: ['health'] })
+      .addToSet('probes', () => 'disk')
+      .build();
+
+    expect(c.describe('config').tags).toEqual(['config']);
+    expect(c.byTag('health').resolve()).toEqual({ 'probes[0]': 'db' });
+  });
+
+  it('byTag() lists tagged keys without resolving them', () => {
+    const c = container()
+      .add('pgHealth', () => 'pg', { tags: ['health'] })
+      .add('diskHealth', () => 'disk', { tags: ['health'] })
+      .add('other', () => 'x')
+      .build();
+
+    const health = c.byTag('health');
+    expectTypeOf(health.keys).toEqualTypeOf<('pgHealth' | 'diskHealth' | 'other')[]>();
+    expect(health.keys).toEqual(['pgHealth', 'diskHealth']);
+    expect(c.health().resolved).toEqual([]);
+  });
+
+  it('byTag().resolve() resolves every tagged provider', () => {
+    const c = container()
+      .add('db', () => 'pg')
+      .add('pgHealth', (c) => `pg:${c.db}`, { tags: ['health'] })
+      .add('diskHealth', () => 'disk', { tags: ['health'] })
+      .add('other', () => 'x')
+      .build();
+
+    expect(c.byTag('health').resolve()).toEqual({ pgHealth: 'pg:pg', diskHealth: 'disk' });
+    expect(c.byTag('unknown').resolve()).toEqual({});
+    expect(c.health().unresolved).toEqual(['other']);
+  });
+
+  it('byTag().resolve() leaves out async providers not awaited yet', async () => {
+    const c = container()
+      .addAsync('db', async () => 'pg', { tags: ['infra'] })
+      .add('cache', () => 'redis', { tags: ['infra'] })
+      .build();
+
+    expect(c.byTag('infra').resolve()).toEqual({ cache: 'redis' });
+    expect(await c.byTag('infra').resolveAsync()).toEqual({ db: 'pg', cache: 'redis' });
+    expect(c.byTag('infra').resolve()).toEqual({ db: 'pg', cache: 'redis' });
+  });
+
+  it('byTag() leaves out scoped providers at the root', async () => {
+    const c = container()
+      .addScoped('uow', () => ({ id: 'uow' }), { tags: ['request'] })
+      .add('requestLog', () => 'log', { tags: ['request'] })
+      .build();
+
+    const request = c.byTag('request');
+    expect(request.keys).toEqual(['uow', 'requestLog']);
+    expect(request.resolve()).toEqual({ requestLog: 'log' });
+    expect(await request.resolveAsync()).toEqual({ requestLog: 'log' });
+    await request.preload();
+    expect(c.scope({}).byTag('request').resolve()).toEqual({
+      uow: { id: 'uow' },
+      requestLog: 'log',
+    });
+  });
+
+  it('byTag() includes tagged providers of parent scopes', () => {
+    const app = container()
+      .add('dbProbe', () => 'db', { tags: ['health'] })
+      .build();
+    const child = app.extend({ extra: () => 'x' }).scope({ requestProbe: () => 'req' });
+
+    expect(child.byTag('health').resolve()).toEqual({ dbProbe: 'db' });
+  });
+
+  it('byTag().preload() warms up only the tagged group', async () => {
+    const initialized: string[] = [];
+    const service = (name: string) => () => ({
+      async onInit() {
+        initialized.push(name);
+      },
+    });
+    const c = container()
+      .add('db', service('db'), { tags: ['critical'] })
+      .add('cache', service('cache'), { tags: ['critical'] })
+      .add('reports', service('reports'))
+      .build();
+
+    await c.byTag('critical').preload();
+    expect(initialized.sort()).toEqual(['cache', 'db']);
+    expect(c.health().unresolved).toEqual(['reports']);
+  });
+
+  it('byTag().preload() with no matching provider resolves nothing', async () => {
+    const c = container()
+      .add('db', () => 'pg')
+      .build();
+
+    await c.byTag('missing').preload();
+    expect(c.health().resolved).toEqual([]);
+  });
+
+  it('byTag is a reserved key', () => {
+    expect(() => container().add('byTag' as any, () => 1)).toThrow(ReservedKeyError);
+  });
+});
@@ -59,6 +59,13 @@ describe('Validator', () => {
         'userService',
       );
     });
+
+    it('matches namespaced keys on their last segment', () => {
+      expect(validator.suggestKey('repo', ['billing.repo', 'db'])).toBe('billing.repo');
+      expect(validator.suggestKey('billing.rpo', ['billing.repo', 'auth.repo'])).toBe(
+        'billing.repo',
+      );
+    });
   });
   describe('fuzzy matching 50% similarity boundary', () => {
     it('suggests when similarity is exactly at 50%', () => {
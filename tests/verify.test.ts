@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CircularDependencyError,
+  ContainerVerificationError,
+  container,
+  decorator,
+  FactoryError,
+  ProviderNotFoundError,
+  ReservedKeyError,
+  UndefinedReturnError,
+} from '../src/index.js';
+
+function brokenBuilder() {
+  return container()
+    .add('config', () => ({ port: 3000 }))
+    .add('missing', (c) => (c as Record<string, unknown>).db)
+    .add('a', (c) => (c as Record<string, unknown>).b)
+    .add('b', (c) => (c as Record<string, unknown>).a)
+    .add('empty', () => undefined as unknown as string)
+    .add('throws', (): string => {
+      throw new Error('boom');
+    });
+}
+
+describe('verify()', () => {
+  it('reports a valid container', () => {
+    const c = container()
+      .add('config', () => ({ port: 3000 }))
+      .add('server', (c) => ({ port: c.config.port }))
+      .build();
+
+    expect(c.verify()).toEqual({
+      valid: true,
+      checked: ['config', 'server'],
+      skipped: [],
+      failures: [],
+    });
+  });
+
+  it('collects every failure instead of stopping at the first', () => {
+    const report = brokenBuilder().build().verify();
+
+    expect(report.valid).toBe(false);
+    expect(report.checked).toEqual(['config', 'missing', 'a', 'b', 'empty', 'throws']);
+    expect(report.failures.map((f) => [f.key, f.error.constructor])).toEqual([
+      ['missing', ProviderNotFoundError],
+      ['a', CircularDependencyError],
+      ['b', CircularDependencyError],
+      ['empty', UndefinedReturnError],
+      ['throws', FactoryError],
+    ]);
+  });
+
+  it('leaves the container untouched and skips onInit', () => {
+    let inits = 0;
+    const c = container()
+      .add('db', () => ({
+        onInit() {
+          inits++;
+        },
+      }))
+      .build();
+
+    c.verify();
+    expect(inits).toBe(0);
+    expect(c.inspect().providers.db.resolved).toBe(false);
+    expect(c.health().resolved).toEqual([]);
+
+    c.db;
+    expect(inits).toBe(1);
+  });
+
+  it('checks scoped providers and skips async ones', () => {
+    const c = container()
+      .addScoped('request', () => ({ id: 1 }))
+      .addAsync('db', async () => 'pg')
+      .add('repo', (c) => ({ db: c.db }))
+      .build();
+
+    const report = c.verify();
+    expect(report.valid).toBe(true);
+    expect(report.checked).toEqual(['request']);
+    expect(report.skipped).toEqual(['db', 'repo']);
+  });
+
+  it('verifies providers inherited by a scope', () => {
+    const app = container()
+      .add('config', () => 'cfg')
+      .build();
+    const request = app.scope({ handler: (c) => (c as Record<string, unknown>).session });
+
+    expect(app.verify().valid).toBe(true);
+    const report = request.verify();
+    expect(report.checked).toEqual(['handler', 'config']);
+    expect(report.failures.map((f) => f.key)).toEqual(['handler']);
+  });
+
+  it('leaves the parent untouched when verifying a scope decorating its keys', () => {
+    let inits = 0;
+    const app = container()
+      .add('repo', () => ({
+        name: 'repo',
+        onInit() {
+          inits++;
+        },
+      }))
+      .build();
+    const request = app.scope({
+      repo: decorator((inner: { name: string }) => ({ ...inner, name: `audited ${inner.name}` })),
+    });
+
+    const report = request.verify();
+    expect(report.valid).toBe(true);
+    expect(report.checked).toContain('repo');
+    expect(app.health().resolved).toEqual([]);
+    expect(inits).toBe(0);
+    expect(request.repo.name).toBe('audited repo');
+  });
+
+  it('is a reserved key', () => {
+    expect(() => container().add('verify' as never, () => 1)).toThrow(ReservedKeyError);
+  });
+});
+
+describe('build({ validate: true })', () => {
+  it('throws ContainerVerificationError listing every failure', () => {
+    expect(() => brokenBuilder().build({ validate: true })).toThrow(ContainerVerificationError);
+    try {
+      brokenBuilder().build({ validate: true });
+    } catch (e) {
+      const err = e as ContainerVerificationError;
+      expect(err.details.failures).toHaveLength(5);
+      expect(err.message).toContain('5 providers cannot be resolved');
+      expect(err.message).toContain("missing: ProviderNotFoundError — Cannot resolve 'missing'");
+      expect(err.hint).toContain('container.verify()');
+    }
+  });
+
+  it('returns the container when it is valid', () => {
+    const c = container()
+      .add('config', () => 'cfg')
+      .build({ validate: true });
+
+    expect(c.config).toBe('cfg');
+  });
+});